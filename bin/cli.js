@@ -11,21 +11,40 @@ program
   .description('Analyze dependencies')
   .argument('[folder]', 'Path', process.cwd())
   .option('-p, --port <port>', 'Port', '8831')
+  .option('-c, --config <file>', 'Config file instead of .depegraphrc')
+  .option('--max-depth <n>', 'Dependency levels to follow', toInteger)
+  .option('--max-nodes <n>', 'Nodes in the whole graph', toInteger)
+  .option('--max-dependencies-per-node <n>', 'Dependencies followed per manifest', toInteger)
+  .option('--max-per-node <n>', 'Dependencies followed per lockfile entry', toInteger)
+  .option('--include-manifests <globs...>', 'package.json globs to analyze')
+  .option('--exclude-manifests <globs...>', 'package.json globs to skip')
+  .option('--include-lockfiles <globs...>', 'Lockfile globs to analyze')
+  .option('--exclude-lockfiles <globs...>', 'Lockfile globs to skip')
+  .option('--include-node-modules <globs...>', 'Install path globs to scan')
+  .option('--exclude-node-modules <globs...>', 'Install path globs to skip')
+  .option('--dependency-types <types>', 'Comma-separated: dependency,devDependency,peerDependency,optionalDependency')
+  .option(
+    '--graph-mode <mode>',
+    'tree repeats shared packages, dag shows each package@version once, dependents walks up from --focus',
+  )
+  .option('--focus <package>', 'Package the dependents graph mode starts from, optionally with @version')
+  .option('--scope <scope>', 'all, production (no devDependencies) or development (only what devDependencies add)')
+  .option('--no-cache', 'Ignore and do not write the analysis cache')
+  .option('--fail-on-cycles', 'Exit with code 1 when workspace packages depend on each other in a cycle')
   .action(async (folder, options) => {
     const folderPath = path.resolve(folder)
     const port = options.port
 
-    const server = spawn('npx', ['next', 'start', '--port', '8831'], {
-      cwd: path.join(__dirname, '../'),
-      stdio: 'inherit',
-      detached: false,
-      env: {
-        ...process.env,
-        NEXT_PUBLIC_ENABLE_LOGGING: '0',
-        NEXT_TELEMETRY_DISABLED: '1',
-        CI: '1',
-      },
-    })
+    const server = startServer(port, options)
+
+    if (options.failOnCycles) {
+      const exitCode = await checkCycles(port, folderPath).catch((error) => {
+        console.error(error)
+        return 2
+      })
+      server.kill()
+      process.exit(exitCode)
+    }
 
     await new Promise((resolve) => setTimeout(resolve, 3000))
 
@@ -45,4 +64,130 @@ program
     })
   })
 
+program
+  .command('explain')
+  .description('Show every dependency chain that pulls a package in, like npm explain')
+  .argument('<package>', 'Package name, optionally with @version')
+  .argument('[folder]', 'Path', process.cwd())
+  .option('-p, --port <port>', 'Port', '8831')
+  .option('-c, --config <file>', 'Config file instead of .depegraphrc')
+  .action(async (spec, folder, options) => {
+    const server = startServer(options.port, options)
+    const exitCode = await explainPackage(options.port, path.resolve(folder), spec).catch((error) => {
+      console.error(error)
+      return 2
+    })
+    server.kill()
+    process.exit(exitCode)
+  })
+
+// Next runs in this child directly, so killing it stops the server and not only a wrapper
+function startServer(port, options) {
+  return spawn(process.execPath, [require.resolve('next/dist/bin/next'), 'start', '--port', port], {
+    cwd: path.join(__dirname, '../'),
+    stdio: 'inherit',
+    detached: false,
+    env: {
+      ...process.env,
+      NEXT_PUBLIC_ENABLE_LOGGING: '0',
+      NEXT_TELEMETRY_DISABLED: '1',
+      CI: '1',
+      DEPEGRAPH_CONFIG: JSON.stringify(getConfigFromFlags(options)),
+      ...(options.config ? { DEPEGRAPH_CONFIG_FILE: path.resolve(options.config) } : {}),
+    },
+  })
+}
+
+// Retries until the server has started
+async function requestApi(port, route, query) {
+  const url = `http://localhost:${port}/api/${route}?${new URLSearchParams(query)}`
+  let response
+
+  for (let attempt = 0; !response; attempt++) {
+    try {
+      response = await fetch(url, { method: 'POST' })
+    } catch (error) {
+      if (attempt >= 60) throw error
+      await new Promise((resolve) => setTimeout(resolve, 1000))
+    }
+  }
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(`${data.error}: ${data.details || response.status}`)
+  }
+
+  return data
+}
+
+// Cycles listed in allowedCycles are reported but do not fail the run
+async function checkCycles(port, folderPath) {
+  const graph = await requestApi(port, 'analyze', { folder: folderPath })
+
+  const workspaceCycles = graph.cycles.filter((cycle) => cycle.kind === 'workspace')
+  for (const cycle of workspaceCycles) {
+    console.log(`${cycle.allowed ? 'Allowed cycle' : 'Cycle'}: ${cycle.path.join(' -> ')}`)
+  }
+
+  const newCycles = workspaceCycles.filter((cycle) => !cycle.allowed)
+  console.log(`${newCycles.length} workspace cycle(s) not listed in allowedCycles`)
+  return newCycles.length > 0 ? 1 : 0
+}
+
+// Printed from the package up to the local package, the way npm explain does
+async function explainPackage(port, folderPath, spec) {
+  const versionIndex = spec.lastIndexOf('@')
+  const name = versionIndex > 0 ? spec.slice(0, versionIndex) : spec
+  const version = versionIndex > 0 ? spec.slice(versionIndex + 1) : ''
+  const explanation = await requestApi(port, 'explain', { folder: folderPath, package: name, version })
+
+  if (explanation.packageKeys.length === 0) {
+    console.log(`${spec} is not in the dependency graph`)
+    return 1
+  }
+
+  for (const chain of explanation.chains) {
+    console.log(chain[chain.length - 1].to)
+    chain
+      .slice()
+      .reverse()
+      .forEach((hop, index) => {
+        console.log(`${'  '.repeat(index + 1)}${hop.type} ${hop.range || '*'} from ${hop.from}`)
+      })
+    console.log('')
+  }
+
+  if (explanation.truncated) {
+    console.log(`Showing the first ${explanation.chains.length} chains`)
+  }
+  return 0
+}
+
+function toInteger(value) {
+  return Number.parseInt(value, 10)
+}
+
+// Only flags that were given, so they override .depegraphrc field by field
+function getConfigFromFlags(options) {
+  const filter = (include, exclude) =>
+    include || exclude ? { ...(include && { include }), ...(exclude && { exclude }) } : undefined
+
+  const config = {
+    maxDepth: options.maxDepth,
+    maxNodesPerTree: options.maxNodes,
+    maxDependenciesPerNode: options.maxDependenciesPerNode,
+    maxPerNode: options.maxPerNode,
+    manifests: filter(options.includeManifests, options.excludeManifests),
+    lockfiles: filter(options.includeLockfiles, options.excludeLockfiles),
+    nodeModules: filter(options.includeNodeModules, options.excludeNodeModules),
+    dependencyTypes: options.dependencyTypes?.split(',').map((type) => type.trim()),
+    graphMode: options.graphMode,
+    focusPackage: options.focus,
+    dependencyScope: options.scope,
+    cache: options.cache === false ? false : undefined,
+  }
+
+  return Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined))
+}
+
 program.parse()
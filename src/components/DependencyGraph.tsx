@@ -1,79 +1,135 @@
 /** biome-ignore-all lint/a11y/noSvgWithoutTitle: <need> */
-import { useEffect, useMemo, useState } from 'react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import ExplainPanel from '@/components/ExplainPanel'
 import { Graph } from '@/components/graph'
-import { getSourceAndTarget } from '@/components/graph-utils/utils'
-import type { LinkDatum, NodeDatum, WorkspaceInfo } from '@/types'
+import {
+  formatDriftIssue,
+  formatPeerIssue,
+  formatSource,
+  getSourceAndTarget,
+  mergeExpansion,
+  metricLabels,
+  type NodeColorOption,
+  type NodeMetric,
+  type NodeSizeOption,
+} from '@/components/graph-utils/utils'
+import PackageTable from '@/components/PackageTable'
+import SavingsPanel from '@/components/SavingsPanel'
+import { formatSize } from '@/libs/utils'
+import type { DepegraphConfig, LinkDatum, NodeDatum, PackageMetrics, RetainedSizeReport, WorkspaceInfo } from '@/types'
 
 interface DependencyGraphProps {
   nodes: NodeDatum[]
   links: LinkDatum[]
   workspaces?: WorkspaceInfo[]
+  // Enables the "Why is this installed?" panel and expanding truncated nodes
+  projectPath?: string
+  config?: DepegraphConfig
+  retainedSizes?: RetainedSizeReport
+  packageMetrics?: Array<PackageMetrics & { packageKey: string; exclusiveSize: number }>
 }
 
-export default function DependencyGraph({ nodes, links, workspaces = [] }: DependencyGraphProps) {
+export default function DependencyGraph({
+  nodes: analyzedNodes,
+  links: analyzedLinks,
+  workspaces = [],
+  projectPath,
+  config,
+  retainedSizes,
+  packageMetrics,
+}: DependencyGraphProps) {
+  // The analyzed graph plus every subtree expanded since
+  const [nodes, setNodes] = useState<NodeDatum[]>(analyzedNodes)
+  const [links, setLinks] = useState<LinkDatum[]>(analyzedLinks)
+  const [expandError, setExpandError] = useState<string | null>(null)
   const [searchTerm, setSearchTerm] = useState('')
   const [filteredNodes, setFilteredNodes] = useState<NodeDatum[]>(nodes)
   const [showLegend, setShowLegend] = useState(false)
+  const [showExplain, setShowExplain] = useState(false)
+  const [showSavings, setShowSavings] = useState(false)
+  const [showPackages, setShowPackages] = useState(false)
+  const [nodeSizeBy, setNodeSizeBy] = useState<NodeSizeOption>('size')
+  const [nodeColorBy, setNodeColorBy] = useState<NodeColorOption>('level')
+  const [internalOnly, setInternalOnly] = useState(false)
   const [filteredLinks, setFilteredLinks] = useState<LinkDatum[]>(links)
   const [hoveredNode, setHoveredNode] = useState<NodeDatum | null>(null)
 
-  const calculateTotalSize = useMemo(() => {
-    const getSizeInBytes = (formattedSize: string | undefined): number => {
-      if (!formattedSize) return 0
-
-      const size = formattedSize.toLowerCase()
-      const num = parseFloat(size)
-
-      if (size.includes('kb')) return num * 1024
-      if (size.includes('mb')) return num * 1024 * 1024
-      if (size.includes('gb')) return num * 1024 * 1024 * 1024
-      if (size.includes('b')) return num
-
-      return 0
-    }
-
-    const formatBytes = (bytes: number): string => {
-      if (bytes === 0) return '0 B'
-
-      const k = 1024
-      const sizes = ['B', 'KB', 'MB', 'GB']
-      const i = Math.floor(Math.log(bytes) / Math.log(k))
-
-      return parseFloat((bytes / k ** i).toFixed(1)) + ' ' + sizes[i]
-    }
-
-    const getAllDependencies = (nodeId: string, visited = new Set<string>()): Set<string> => {
-      if (visited.has(nodeId)) return visited
+  useEffect(() => {
+    setNodes(analyzedNodes)
+    setLinks(analyzedLinks)
+  }, [analyzedNodes, analyzedLinks])
 
-      visited.add(nodeId)
+  const metricsByKey = useMemo(
+    () => new Map((packageMetrics || []).map((entry) => [entry.packageKey, entry])),
+    [packageMetrics],
+  )
 
-      links.forEach((link) => {
-        const { sourceId, targetId } = getSourceAndTarget(link)
-        if (sourceId === nodeId && !visited.has(targetId)) {
-          getAllDependencies(targetId, visited)
+  const expandNode = useCallback(
+    async (node: NodeDatum) => {
+      if (!projectPath || !config) return
+
+      setExpandError(null)
+      try {
+        const focusQuery = config.focusPackage ? `&focusPackage=${encodeURIComponent(config.focusPackage)}` : ''
+        const response = await fetch(
+          `/api/expand?folder=${encodeURIComponent(projectPath)}&depth=1&graphMode=${config.graphMode}` +
+            `&dependencyScope=${config.dependencyScope}${focusQuery}`,
+          {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              node: {
+                id: node.id,
+                packageKey: node.packageKey,
+                dependencyLevel: node.dependencyLevel,
+                isRoot: node.isRoot,
+                parentPath: node.parentPath,
+              },
+            }),
+          },
+        )
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.details ? `${data.error}: ${data.details}` : data.error)
         }
-      })
-
-      return visited
-    }
-
-    return (nodeId: string): string => {
-      const allDependencies = getAllDependencies(nodeId)
-      let totalBytes = 0
 
-      allDependencies.forEach((depId) => {
-        const node = nodes.find((n) => n.id === depId)
-        if (node?.formattedSize) {
-          totalBytes += getSizeInBytes(node.formattedSize)
+        // Expansions come without the graph-wide metrics, the analysis already has them for every package
+        const expansion = {
+          ...data,
+          nodes: data.nodes.map((expanded: NodeDatum) => {
+            const { packageKey, exclusiveSize, ...metrics } = metricsByKey.get(expanded.packageKey) || {}
+            return packageKey ? { ...expanded, exclusiveSize, metrics } : expanded
+          }),
         }
-      })
+        const merged = mergeExpansion(nodes, links, node, expansion, config.graphMode)
+        setNodes(merged.nodes)
+        setLinks(merged.links)
+      } catch (err) {
+        setExpandError(err instanceof Error ? err.message : 'An error occurred')
+      }
+    },
+    [projectPath, config, nodes, links, metricsByKey],
+  )
+
+  // Local packages and the links between them, without any third-party package
+  const scopedGraph = useMemo(() => {
+    if (!internalOnly) return { nodes, links }
 
-      return formatBytes(totalBytes)
+    const localIds = new Set(nodes.filter((node) => node.source?.kind === 'local').map((node) => node.id))
+    return {
+      nodes: nodes.filter((node) => localIds.has(node.id)),
+      links: links.filter((link) => {
+        const { sourceId, targetId } = getSourceAndTarget(link)
+        return localIds.has(sourceId) && localIds.has(targetId)
+      }),
     }
-  }, [nodes, links])
+  }, [internalOnly, nodes, links])
 
   // Improved search logic based on parentPath
   useEffect(() => {
+    const { nodes, links } = scopedGraph
+
     if (searchTerm.trim()) {
       const relatedNodes = new Set<string>()
 
@@ -111,9 +167,9 @@ export default function DependencyGraph({ nodes, links, workspaces = [] }: Depen
       const addParentPath = (node: NodeDatum) => {
         if (node.parentPath && node.parentPath.length > 0) {
           // parentPath contains the path from root to this node
-          node.parentPath.forEach((parentName) => {
-            // Find node by name from parentPath
-            const parentNode = nodes.find((n) => n.name === parentName)
+          node.parentPath.forEach((parentKey) => {
+            // Find node by package key from parentPath
+            const parentNode = nodes.find((n) => n.packageKey === parentKey)
             if (parentNode) {
               relatedNodes.add(parentNode.id)
               // Recursively add parents of this parent
@@ -126,7 +182,7 @@ export default function DependencyGraph({ nodes, links, workspaces = [] }: Depen
       // 6. Find nodes that have found in their parentPath
       const addChildrenByParentPath = (searchNode: NodeDatum) => {
         nodes.forEach((node) => {
-          if (node.parentPath?.includes(searchNode.name)) {
+          if (node.parentPath?.includes(searchNode.packageKey)) {
             relatedNodes.add(node.id)
           }
         })
@@ -155,7 +211,7 @@ export default function DependencyGraph({ nodes, links, workspaces = [] }: Depen
       setFilteredNodes(nodes)
       setFilteredLinks(links)
     }
-  }, [searchTerm, nodes, links])
+  }, [searchTerm, scopedGraph])
 
   // Eye icon for toggle legends
   const EyeIcon = ({ isOpen }: { isOpen: boolean }) => (
@@ -204,8 +260,97 @@ export default function DependencyGraph({ nodes, links, workspaces = [] }: Depen
           {showLegend ? 'Show' : 'Legend'}
         </button>
 
+        <button
+          type="button"
+          onClick={() => setInternalOnly(!internalOnly)}
+          className={`px-3 py-2 text-white rounded-lg text-sm transition-colors shadow-sm ${
+            internalOnly ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-600 hover:bg-gray-700'
+          }`}
+          title="Show only local packages and the dependencies between them"
+        >
+          Internal only
+        </button>
+
+        {projectPath && (
+          <button
+            type="button"
+            onClick={() => setShowExplain(!showExplain)}
+            className="px-3 py-2 bg-gray-600 text-white rounded-lg text-sm hover:bg-gray-700 transition-colors shadow-sm"
+            title="Show every dependency chain that pulls a package in"
+          >
+            Why installed?
+          </button>
+        )}
+
+        {projectPath && showExplain && (
+          <ExplainPanel projectPath={projectPath} initialQuery={searchTerm} onSelectPackage={setSearchTerm} />
+        )}
+
+        {retainedSizes && (
+          <button
+            type="button"
+            onClick={() => setShowSavings(!showSavings)}
+            className="px-3 py-2 bg-gray-600 text-white rounded-lg text-sm hover:bg-gray-700 transition-colors shadow-sm"
+            title="Direct dependencies ranked by the disk space removing them would free"
+          >
+            Biggest savings
+          </button>
+        )}
+
+        {retainedSizes && showSavings && <SavingsPanel report={retainedSizes} onSelectPackage={setSearchTerm} />}
+
+        {packageMetrics && (
+          <button
+            type="button"
+            onClick={() => setShowPackages(!showPackages)}
+            className="px-3 py-2 bg-gray-600 text-white rounded-lg text-sm hover:bg-gray-700 transition-colors shadow-sm"
+            title="Every package with its centrality metrics"
+          >
+            Package table
+          </button>
+        )}
+
+        {packageMetrics && showPackages && <PackageTable packages={packageMetrics} onSelectPackage={setSearchTerm} />}
+
+        <div className="flex flex-col gap-1 bg-gray-600 text-white rounded-lg text-xs px-3 py-2 shadow-sm">
+          <label className="flex justify-between gap-2">
+            Size by
+            <select
+              value={nodeSizeBy}
+              onChange={(e) => setNodeSizeBy(e.target.value as NodeSizeOption)}
+              className="bg-gray-700 rounded"
+            >
+              <option value="size">Disk size</option>
+              {(Object.keys(metricLabels) as NodeMetric[]).map((metric) => (
+                <option key={metric} value={metric}>
+                  {metricLabels[metric]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex justify-between gap-2">
+            Color by
+            <select
+              value={nodeColorBy}
+              onChange={(e) => setNodeColorBy(e.target.value as NodeColorOption)}
+              className="bg-gray-700 rounded"
+            >
+              <option value="level">Level</option>
+              {(Object.keys(metricLabels) as NodeMetric[]).map((metric) => (
+                <option key={metric} value={metric}>
+                  {metricLabels[metric]}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {expandError && (
+          <div className="w-64 text-xs text-red-400 bg-black/80 px-2 py-1 rounded shadow">{expandError}</div>
+        )}
+
         {/* Search statistics */}
-        {searchTerm.trim() && (
+        {(searchTerm.trim() || internalOnly) && (
           <div className="text-xs text-gray-600 bg-white px-2 py-1 rounded shadow">
             Showed: {filteredNodes.length} from {nodes.length} pkgs
           </div>
@@ -218,6 +363,9 @@ export default function DependencyGraph({ nodes, links, workspaces = [] }: Depen
         nodes={nodes}
         workspaces={workspaces}
         setHoveredNode={setHoveredNode}
+        onExpandNode={projectPath && config ? expandNode : undefined}
+        nodeSizeBy={nodeSizeBy}
+        nodeColorBy={nodeColorBy}
       />
 
       {/* Improved hover node information */}
@@ -240,10 +388,38 @@ export default function DependencyGraph({ nodes, links, workspaces = [] }: Depen
               </div>
             )}
 
-            <div className="flex justify-between">
-              <span className="text-gray-600">Total size:</span>
-              <span className="font-semibold text-pink-600">{calculateTotalSize(hoveredNode.id)}</span>
-            </div>
+            {hoveredNode.transitiveSize !== undefined && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Total size:</span>
+                <span className="font-semibold text-pink-600">{formatSize(hoveredNode.transitiveSize)}</span>
+              </div>
+            )}
+
+            {hoveredNode.metrics && (
+              <div className="flex justify-between gap-4">
+                <span className="text-gray-600">Centrality:</span>
+                <span className="font-mono text-amber-600 text-xs text-right">
+                  PageRank {hoveredNode.metrics.pageRank.toFixed(4)}, betweenness{' '}
+                  {hoveredNode.metrics.betweenness.toFixed(1)}, {hoveredNode.metrics.transitiveDependents} dependents
+                </span>
+              </div>
+            )}
+
+            {!!hoveredNode.metrics?.dominatedPackages && (
+              <div className="flex justify-between gap-4">
+                <span className="text-gray-600">Single point of failure:</span>
+                <span className="font-semibold text-red-500">
+                  {hoveredNode.metrics.dominatedPackages} packages only reachable through it
+                </span>
+              </div>
+            )}
+
+            {hoveredNode.exclusiveSize !== undefined && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Exclusive size:</span>
+                <span className="font-semibold text-pink-600">{formatSize(hoveredNode.exclusiveSize)}</span>
+              </div>
+            )}
 
             <div className="flex justify-between">
               <span className="text-gray-600">Level:</span>
@@ -282,6 +458,50 @@ export default function DependencyGraph({ nodes, links, workspaces = [] }: Depen
               </span>
             </div>
 
+            {hoveredNode.installState && (
+              <div className="flex justify-between gap-4">
+                <span className="text-gray-600">Install:</span>
+                <span className="font-mono text-cyan-600 text-xs text-right">
+                  {hoveredNode.installState === 'hoisted'
+                    ? 'Hoisted'
+                    : hoveredNode.installState === 'nested'
+                      ? `Nested under ${hoveredNode.nestedUnder?.join(', ')}`
+                      : `Hoisted + nested under ${hoveredNode.nestedUnder?.join(', ')}`}
+                </span>
+              </div>
+            )}
+
+            {hoveredNode.source && (
+              <div className="flex justify-between gap-4">
+                <span className="text-gray-600">Source:</span>
+                <span className="font-mono text-teal-600 text-xs text-right break-all">
+                  {formatSource(hoveredNode.source)}
+                </span>
+              </div>
+            )}
+
+            {hoveredNode.drift && hoveredNode.drift.length > 0 && (
+              <div>
+                <span className="text-gray-600">Drift:</span>
+                <ul className="mt-1 space-y-0.5 text-xs text-orange-500">
+                  {hoveredNode.drift.map((issue) => (
+                    <li key={`${issue.kind}-${issue.name}-${issue.installPath || ''}`}>{formatDriftIssue(issue)}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {hoveredNode.peerIssues && hoveredNode.peerIssues.length > 0 && (
+              <div>
+                <span className="text-gray-600">Peers:</span>
+                <ul className="mt-1 space-y-0.5 text-xs text-yellow-500">
+                  {hoveredNode.peerIssues.map((issue) => (
+                    <li key={`${issue.kind}-${issue.peerName}`}>{formatPeerIssue(issue)}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             <div className="flex justify-between">
               <span className="text-gray-600">Deps:</span>
               <span className="font-semibold text-blue-600">{hoveredNode.depCount}</span>
@@ -291,6 +511,13 @@ export default function DependencyGraph({ nodes, links, workspaces = [] }: Depen
               <span className="text-gray-600">Used:</span>
               <span className="font-semibold text-orange-600">{hoveredNode.inDegree}</span>
             </div>
+
+            {hoveredNode.omittedChildren && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Not shown:</span>
+                <span className="text-sky-400">{hoveredNode.omittedChildren} (double-click to expand)</span>
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -300,6 +527,17 @@ export default function DependencyGraph({ nodes, links, workspaces = [] }: Depen
           <h4 className="font-bold mb-3 text-white">Legend</h4>
 
           <div className="space-y-3 text-sm">
+            {nodeColorBy !== 'level' && (
+              <div className="border-b border-gray-200/10 pb-2">
+                <p className="font-semibold mb-2 text-white">Color: {metricLabels[nodeColorBy]}</p>
+                <div className="h-2 w-40 rounded bg-gradient-to-r from-yellow-100 via-orange-400 to-red-800"></div>
+                <div className="flex justify-between w-40 text-xs">
+                  <span>low</span>
+                  <span>highest</span>
+                </div>
+              </div>
+            )}
+
             <div>
               <p className="font-semibold mb-2 text-white">Level deps:</p>
               <div className="space-y-1.5">
@@ -328,6 +566,18 @@ export default function DependencyGraph({ nodes, links, workspaces = [] }: Depen
                 <div className="w-4 h-4 bg-gray-500 rounded-full border-2 border-red-600 mr-3 flex-shrink-0"></div>
                 <span className="">Not installed</span>
               </div>
+              <div className="flex items-center mt-1.5">
+                <div className="w-4 h-4 bg-gray-500 rounded-full border-2 border-dashed border-gray-300 mr-3 flex-shrink-0"></div>
+                <span className="">Nested install</span>
+              </div>
+              <div className="flex items-center mt-1.5">
+                <div className="w-2 h-2 bg-orange-500 rounded-full mr-4 ml-1 flex-shrink-0"></div>
+                <span className="">Manifest / lockfile / node_modules drift</span>
+              </div>
+              <div className="flex items-center mt-1.5">
+                <div className="w-2 h-2 bg-yellow-500 rounded-full mr-4 ml-1 flex-shrink-0"></div>
+                <span className="">Peer dependency warning</span>
+              </div>
             </div>
 
             <div className="border-t border-gray-200/10 pt-2">
@@ -349,6 +599,26 @@ export default function DependencyGraph({ nodes, links, workspaces = [] }: Depen
                   <div className="w-4 h-0.5 bg-teal-500 mr-3"></div>
                   <span className="text-xs">optionalDependencies</span>
                 </div>
+                <div className="flex items-center">
+                  <div className="w-4 h-0 border-t-2 border-dashed border-blue-500 mr-3"></div>
+                  <span className="text-xs">workspace / local links</span>
+                </div>
+                <div className="flex items-center">
+                  <div className="w-4 h-0 border-t-2 border-dotted border-gray-500 mr-3"></div>
+                  <span className="text-xs">overridden version</span>
+                </div>
+                <div className="flex items-center">
+                  <div className="w-4 h-0 border-t-2 border-dotted border-red-600 mr-3"></div>
+                  <span className="text-xs">override not applied</span>
+                </div>
+                <div className="flex items-center">
+                  <div className="w-4 h-0.5 bg-rose-500 mr-3"></div>
+                  <span className="text-xs">version outside declared range</span>
+                </div>
+                <div className="flex items-center">
+                  <div className="w-4 h-0.5 bg-fuchsia-500 mr-3"></div>
+                  <span className="text-xs">dependency cycle</span>
+                </div>
               </div>
             </div>
           </div>
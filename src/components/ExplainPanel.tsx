@@ -0,0 +1,115 @@
+import { useCallback, useState } from 'react'
+import { parsePackageKey } from '@/libs/utils'
+import type { DependencyExplanation } from '@/types'
+
+interface ExplainPanelProps {
+  projectPath: string
+  initialQuery?: string
+  onSelectPackage?: (name: string) => void
+}
+
+// "name" or "name@version", scoped names included
+const parseQuery = (query: string) => {
+  const trimmed = query.trim()
+  const versionIndex = trimmed.lastIndexOf('@')
+  if (versionIndex <= 0) return { name: trimmed }
+
+  return { name: trimmed.slice(0, versionIndex), version: trimmed.slice(versionIndex + 1) }
+}
+
+export default function ExplainPanel({ projectPath, initialQuery = '', onSelectPackage }: ExplainPanelProps) {
+  const [query, setQuery] = useState(initialQuery)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [explanation, setExplanation] = useState<DependencyExplanation | null>(null)
+
+  const explain = useCallback(async () => {
+    const { name, version } = parseQuery(query)
+    if (!name) return
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const versionQuery = version ? `&version=${encodeURIComponent(version)}` : ''
+      const response = await fetch(
+        `/api/explain?folder=${encodeURIComponent(projectPath)}&package=${encodeURIComponent(name)}${versionQuery}`,
+        { method: 'POST' },
+      )
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.details ? `${data.error}: ${data.details}` : data.error)
+      }
+
+      setExplanation(data)
+    } catch (err) {
+      setExplanation(null)
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [projectPath, query])
+
+  return (
+    <div className="w-96 max-h-[60vh] overflow-y-auto bg-black/80 backdrop-blur-md border border-gray-200/10 p-4 rounded-lg shadow-lg text-sm">
+      <h3 className="font-bold text-white/70 mb-2">Why is this installed?</h3>
+
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault()
+          void explain()
+        }}
+      >
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="package or package@version"
+          className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm text-black outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={loading || !query.trim()}
+          className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-500 transition-colors"
+        >
+          {loading ? '...' : 'Explain'}
+        </button>
+      </form>
+
+      {error && <p className="mt-2 text-red-400">{error}</p>}
+
+      {explanation && (
+        <div className="mt-3 space-y-3">
+          <p className="text-gray-400">
+            {explanation.packageKeys.length === 0
+              ? 'No such package in the dependency graph'
+              : `${explanation.chains.length}${explanation.truncated ? '+' : ''} chains to ${explanation.packageKeys.join(', ')}`}
+          </p>
+
+          {explanation.chains.map((chain) => (
+            <ol key={chain.map((hop) => hop.from).join('>')} className="border-l border-gray-600 pl-3 space-y-1">
+              <li className="font-mono text-blue-400">{chain[0].from}</li>
+              {chain.map((hop) => (
+                <li key={`${hop.from}>${hop.to}`} className="font-mono">
+                  <span className="text-gray-500">
+                    └ {hop.type}
+                    {hop.range ? ` ${hop.range}` : ''} →{' '}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => onSelectPackage?.(parsePackageKey(hop.to).name)}
+                    className="text-white/80 hover:underline"
+                  >
+                    {hop.to}
+                  </button>
+                </li>
+              ))}
+            </ol>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
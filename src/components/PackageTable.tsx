@@ -0,0 +1,81 @@
+import { useMemo, useState } from 'react'
+import { metricLabels, type NodeMetric } from '@/components/graph-utils/utils'
+import { parsePackageKey } from '@/libs/utils'
+import type { PackageMetrics } from '@/types'
+
+interface PackageTableProps {
+  packages: Array<PackageMetrics & { packageKey: string }>
+  onSelectPackage?: (name: string) => void
+  // Rows rendered at once; the rest stays reachable by sorting
+  limit?: number
+}
+
+const formatMetric = (metric: NodeMetric, value: number) => {
+  if (metric === 'pageRank') return value.toFixed(4)
+  if (metric === 'betweenness') return value.toFixed(1)
+  return String(value)
+}
+
+export default function PackageTable({ packages, onSelectPackage, limit = 200 }: PackageTableProps) {
+  const [sortBy, setSortBy] = useState<NodeMetric>('dominatedPackages')
+
+  const rows = useMemo(
+    () =>
+      [...packages].sort((a, b) => b[sortBy] - a[sortBy] || a.packageKey.localeCompare(b.packageKey)).slice(0, limit),
+    [packages, sortBy, limit],
+  )
+
+  return (
+    <div className="w-[36rem] max-h-[60vh] overflow-y-auto bg-black/80 backdrop-blur-md border border-gray-200/10 p-4 rounded-lg shadow-lg text-sm">
+      <h3 className="font-bold text-white/70 mb-1">Packages</h3>
+      <p className="text-xs text-gray-500 mb-3">
+        {packages.length} packages of the deduplicated graph, click a column to sort by it
+      </p>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-gray-400">
+            <th className="pb-1 font-normal">Package</th>
+            {(Object.keys(metricLabels) as NodeMetric[]).map((metric) => (
+              <th key={metric} className="pb-1 font-normal text-right">
+                <button
+                  type="button"
+                  onClick={() => setSortBy(metric)}
+                  className={sortBy === metric ? 'text-white underline' : 'hover:text-white'}
+                >
+                  {metricLabels[metric]}
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="font-mono">
+          {rows.map((row) => (
+            <tr key={row.packageKey} className="border-t border-gray-700/50">
+              <td className="py-0.5 pr-2 max-w-[12rem] truncate">
+                <button
+                  type="button"
+                  onClick={() => onSelectPackage?.(parsePackageKey(row.packageKey).name)}
+                  className="text-white/80 hover:underline"
+                  title={row.packageKey}
+                >
+                  {row.packageKey}
+                </button>
+              </td>
+              {(Object.keys(metricLabels) as NodeMetric[]).map((metric) => (
+                <td
+                  key={metric}
+                  className={`py-0.5 text-right ${
+                    metric === 'dominatedPackages' && row[metric] > 0 ? 'text-red-400' : 'text-gray-300'
+                  }`}
+                >
+                  {formatMetric(metric, row[metric])}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
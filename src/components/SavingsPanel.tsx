@@ -0,0 +1,45 @@
+import { formatSize, parsePackageKey } from '@/libs/utils'
+import type { RetainedSizeReport } from '@/types'
+
+interface SavingsPanelProps {
+  report: RetainedSizeReport
+  onSelectPackage?: (name: string) => void
+}
+
+export default function SavingsPanel({ report, onSelectPackage }: SavingsPanelProps) {
+  return (
+    <div className="w-96 max-h-[60vh] overflow-y-auto bg-black/80 backdrop-blur-md border border-gray-200/10 p-4 rounded-lg shadow-lg text-sm">
+      <h3 className="font-bold text-white/70 mb-1">Biggest savings</h3>
+      <p className="text-xs text-gray-500 mb-3">
+        Freed by dropping a direct dependency from a workspace, next to everything it reaches
+      </p>
+
+      {report.workspaces.length === 0 && <p className="text-gray-400">No direct dependencies</p>}
+
+      <div className="space-y-3">
+        {report.workspaces.map(({ workspace, dependencies }) => (
+          <div key={workspace}>
+            <h4 className="font-mono text-indigo-400 mb-1">{workspace}</h4>
+            <ol className="border-l border-gray-600 pl-3 space-y-1">
+              {dependencies.map(({ packageKey, exclusiveSize, transitiveSize }) => (
+                <li key={packageKey} className="flex justify-between gap-4 font-mono">
+                  <button
+                    type="button"
+                    onClick={() => onSelectPackage?.(parsePackageKey(packageKey).name)}
+                    className="text-white/80 hover:underline truncate text-left"
+                  >
+                    {packageKey}
+                  </button>
+                  <span className="shrink-0">
+                    <span className="text-pink-500">{formatSize(exclusiveSize)}</span>
+                    <span className="text-gray-500"> / {formatSize(transitiveSize)}</span>
+                  </span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,15 @@
+import * as d3 from 'd3'
 import { useCallback } from 'react'
 import { getSourceAndTarget } from '@/libs/utils'
-import type { LinkDatum, NodeDatum } from '@/types'
+import type {
+  DepegraphConfig,
+  DependencySource,
+  DriftIssue,
+  LinkDatum,
+  NodeDatum,
+  PackageMetrics,
+  PeerDependencyIssue,
+} from '@/types'
 
 export { getSourceAndTarget } from '@/libs/utils'
 
@@ -101,6 +110,33 @@ export const getNodeColor = (d: NodeDatum) => {
   }
 }
 
+export type NodeMetric = keyof PackageMetrics
+// What node radius and fill stand for: the defaults or one of the centrality metrics
+export type NodeSizeOption = 'size' | NodeMetric
+export type NodeColorOption = 'level' | NodeMetric
+
+export const metricLabels: Record<NodeMetric, string> = {
+  pageRank: 'PageRank',
+  betweenness: 'Betweenness',
+  transitiveDependents: 'Dependents',
+  dominatedPackages: 'Single point of failure',
+}
+
+// Metrics are scaled against the largest value among `nodes`, so small and large graphs use the whole range
+export const createNodeStyle = (nodes: NodeDatum[], sizeBy: NodeSizeOption, colorBy: NodeColorOption) => {
+  const getRatio = (metric: NodeMetric) => {
+    const max = nodes.reduce((largest, node) => Math.max(largest, node.metrics?.[metric] || 0), 0)
+    return (d: NodeDatum) => (max > 0 ? (d.metrics?.[metric] || 0) / max : 0)
+  }
+  const sizeRatio = sizeBy === 'size' ? null : getRatio(sizeBy)
+  const colorRatio = colorBy === 'level' ? null : getRatio(colorBy)
+
+  return {
+    getRadius: (d: NodeDatum) => (sizeRatio ? 4 + 26 * Math.sqrt(sizeRatio(d)) : getNodeRadius(d)),
+    getColor: (d: NodeDatum) => (colorRatio ? d3.interpolateYlOrRd(0.1 + 0.9 * colorRatio(d)) : getNodeColor(d)),
+  }
+}
+
 export const getStrokeColor = (d: NodeDatum) => {
   if (d.isRoot) return '#ffcd5e'
   if (d.dependencyLevel === 1) return '#24ff4c'
@@ -115,7 +151,51 @@ export const getStrokeWidth = (d: NodeDatum) => {
   return 1
 }
 
+// Copies that only exist inside another package's node_modules
+export const getNodeDashArray = (d: NodeDatum) => (d.installState === 'nested' ? '3 2' : null)
+
+export const formatDriftIssue = (issue: DriftIssue) => {
+  switch (issue.kind) {
+    case 'missing-from-lockfile':
+      return `${issue.name}@${issue.specifier} is not in the lockfile`
+    case 'unused-lock-entry':
+      return 'Locked but no manifest requires it'
+    case 'version-mismatch':
+      return `Installed ${issue.installedVersion}, locked ${issue.lockedVersion}`
+    case 'not-in-lockfile':
+      return 'Installed but unknown to the lockfile'
+  }
+}
+
+export const formatPeerIssue = (issue: PeerDependencyIssue) => {
+  switch (issue.kind) {
+    case 'missing':
+      return `Peer ${issue.peerName}@${issue.range} is missing`
+    case 'incompatible':
+      return `Peer ${issue.peerName}@${issue.range} got ${issue.providers.join(', ')}`
+    case 'multiple-providers':
+      return `Peer ${issue.peerName} resolves to ${issue.providers.join(', ')}`
+  }
+}
+
+export const formatSource = (source: DependencySource) => {
+  const origin = source.registryHost || source.resolved
+  switch (source.kind) {
+    case 'alias':
+      return `Alias of ${source.realName}${origin ? ` (${origin})` : ''}`
+    case 'registry':
+      return `Registry${origin ? ` (${origin})` : ''}`
+    default:
+      return `${source.kind.charAt(0).toUpperCase()}${source.kind.slice(1)}${origin ? ` (${origin})` : ''}`
+  }
+}
+
 export const getLinkColor = (d: LinkDatum) => {
+  if (d.override && !d.override.applied) return '#dc2626'
+  if (d.satisfiesRange === false) return '#f43f5e'
+  if (d.isCycle) return '#d946ef'
+  if (d.isInternal) return '#3498db'
+
   switch (d.type) {
     case 'devDependency':
       return '#f39c12'
@@ -128,6 +208,11 @@ export const getLinkColor = (d: LinkDatum) => {
   }
 }
 
+export const getLinkDashArray = (d: LinkDatum) => {
+  if (d.override) return '2 3'
+  return d.isInternal ? '6 3' : null
+}
+
 export const truncateText = (text: string, maxLength: number = 15) => {
   if (text.length <= maxLength) return text
 
@@ -136,3 +221,98 @@ export const truncateText = (text: string, maxLength: number = 15) => {
 
   return withoutScope.substring(0, maxLength - 1) + '…'
 }
+
+// Adds the levels /api/expand returned below `expandedNode`. In tree mode they replace the node's current subtree;
+// in the other modes nodes are shared by id. New nodes start at the expanded node so the layout grows from there
+export const mergeExpansion = (
+  nodes: NodeDatum[],
+  links: LinkDatum[],
+  expandedNode: NodeDatum,
+  expansion: { nodes: NodeDatum[]; links: LinkDatum[] },
+  graphMode: DepegraphConfig['graphMode'],
+): { nodes: NodeDatum[]; links: LinkDatum[] } => {
+  const levelById = new Map(nodes.map((node) => [node.id, node.dependencyLevel]))
+  const removed = new Set<string>()
+
+  // Tree links always go one level down, links back to an ancestor close a cycle
+  if (graphMode === 'tree') {
+    const queue = [expandedNode.id]
+    for (let index = 0; index < queue.length; index++) {
+      for (const link of links) {
+        const { sourceId, targetId } = getSourceAndTarget(link)
+        if (sourceId !== queue[index] || removed.has(targetId)) continue
+        if ((levelById.get(targetId) ?? 0) <= (levelById.get(sourceId) ?? 0)) continue
+
+        removed.add(targetId)
+        queue.push(targetId)
+      }
+    }
+  }
+
+  const nodeById = new Map(nodes.filter((node) => !removed.has(node.id)).map((node) => [node.id, node]))
+  for (const node of expansion.nodes) {
+    const existing = nodeById.get(node.id)
+    if (existing) {
+      existing.omittedChildren = Math.min(existing.omittedChildren || 0, node.omittedChildren || 0) || undefined
+      continue
+    }
+
+    nodeById.set(node.id, {
+      ...node,
+      x: (expandedNode.x || 0) + (Math.random() - 0.5) * 20,
+      y: (expandedNode.y || 0) + (Math.random() - 0.5) * 20,
+    })
+  }
+
+  const keptLinks = links.filter((link) => {
+    const { sourceId, targetId } = getSourceAndTarget(link)
+    return !removed.has(sourceId) && !removed.has(targetId)
+  })
+
+  // Cycle links of a tree expansion point at the ancestor's package key, found by walking up from the expanded node
+  const findAncestor = (packageKey: string): string | undefined => {
+    let current: NodeDatum | undefined = expandedNode
+    while (current) {
+      if (current.packageKey === packageKey) return current.id
+
+      const currentId: string = current.id
+      const parentLink = keptLinks.find((link) => {
+        const { sourceId, targetId } = getSourceAndTarget(link)
+        return targetId === currentId && (levelById.get(sourceId) ?? 0) < (levelById.get(targetId) ?? 0)
+      })
+      current = parentLink ? nodeById.get(getSourceAndTarget(parentLink).sourceId) : undefined
+    }
+    return Array.from(nodeById.values()).find((node) => node.packageKey === packageKey)?.id
+  }
+
+  const linkKeys = new Set(
+    keptLinks.map((link) => {
+      const { sourceId, targetId } = getSourceAndTarget(link)
+      return `${sourceId}>${targetId}`
+    }),
+  )
+  const mergedLinks = [...keptLinks]
+  for (const link of expansion.links) {
+    const source = nodeById.has(link.source) ? link.source : findAncestor(link.source)
+    const target = nodeById.has(link.target) ? link.target : findAncestor(link.target)
+    if (!source || !target || linkKeys.has(`${source}>${target}`)) continue
+
+    linkKeys.add(`${source}>${target}`)
+    mergedLinks.push({ ...link, source, target })
+  }
+
+  const mergedNodes = Array.from(nodeById.values())
+  for (const node of mergedNodes) {
+    node.depCount = 0
+    node.inDegree = 0
+  }
+  for (const link of mergedLinks) {
+    const { sourceId, targetId } = getSourceAndTarget(link)
+    const source = nodeById.get(sourceId)
+    const target = nodeById.get(targetId)
+    if (source) source.depCount++
+    if (target) target.inDegree++
+  }
+
+  return { nodes: mergedNodes, links: mergedLinks }
+}
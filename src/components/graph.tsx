@@ -10,12 +10,15 @@ import {
 } from '@/components/graph-utils/label-hover'
 import {
   createFindAllConnectedNodes,
+  createNodeStyle,
   getLinkColor,
-  getNodeColor,
-  getNodeRadius,
+  getLinkDashArray,
+  getNodeDashArray,
   getSourceAndTarget,
   getStrokeColor,
   getStrokeWidth,
+  type NodeColorOption,
+  type NodeSizeOption,
   truncateText,
 } from '@/components/graph-utils/utils'
 import { createZoom } from '@/components/graph-utils/zoom'
@@ -27,12 +30,27 @@ export const Graph = memo(function GraphMemo(props: {
   filteredLinks: LinkDatum[]
   workspaces: WorkspaceInfo[]
   setHoveredNode: (node: NodeDatum | null) => void
+  // Called on double-click for nodes whose children were cut off by the analysis limits
+  onExpandNode?: (node: NodeDatum) => void
+  nodeSizeBy?: NodeSizeOption
+  nodeColorBy?: NodeColorOption
 }) {
   const [size, setSize] = useState<[number, number]>([800, 600])
-  const { filteredNodes, filteredLinks, workspaces, setHoveredNode } = props
+  const {
+    filteredNodes,
+    filteredLinks,
+    workspaces,
+    setHoveredNode,
+    onExpandNode,
+    nodeSizeBy = 'size',
+    nodeColorBy = 'level',
+  } = props
   const containerRef = useRef<HTMLDivElement>(null)
   const svgRef = useRef<SVGSVGElement>(null)
   const simRef = useRef<d3.Simulation<NodeDatum, d3.SimulationLinkDatum<NodeDatum>> | null>(null)
+  // Read at double-click time so a new callback does not redraw the graph
+  const onExpandNodeRef = useRef(onExpandNode)
+  onExpandNodeRef.current = onExpandNode
 
   // Measuring the size of the container
   const measure = useCallback(() => {
@@ -55,6 +73,7 @@ export const Graph = memo(function GraphMemo(props: {
     if (!svgRef.current || filteredNodes.length === 0) return
 
     const [width, height] = size
+    const { getRadius, getColor } = createNodeStyle(filteredNodes, nodeSizeBy, nodeColorBy)
     const svg = d3.select(svgRef.current).style('width', '100%').style('height', '100%')
 
     svg.selectAll('*').remove()
@@ -64,6 +83,8 @@ export const Graph = memo(function GraphMemo(props: {
 
     const zoom = createZoom(g)
     svg.call(zoom)
+    // Keep the view when the graph is redrawn after a search or an expansion
+    g.attr('transform', d3.zoomTransform(svgRef.current).toString())
 
     // Creating a node map by workspace
     const workspaceNodeMap = new Map<string, NodeDatum[]>()
@@ -141,6 +162,7 @@ export const Graph = memo(function GraphMemo(props: {
       .data(filteredLinks)
       .join('line')
       .attr('stroke', getLinkColor)
+      .attr('stroke-dasharray', getLinkDashArray)
       .attr('stroke-opacity', 0.4) // Reduced opacity for a less confusing look
       .attr('stroke-width', 1.5)
 
@@ -154,7 +176,7 @@ export const Graph = memo(function GraphMemo(props: {
       .join('circle')
       .style('z-index', 10)
       .attr('class', 'node-hover-area')
-      .attr('r', (d) => getNodeRadius(d) + 3)
+      .attr('r', (d) => getRadius(d) + 3)
       .attr('fill', 'transparent')
       .attr('stroke', 'none')
       .style('cursor', 'pointer')
@@ -164,12 +186,55 @@ export const Graph = memo(function GraphMemo(props: {
       .data(filteredNodes)
       .join('circle')
       .attr('class', 'node-visual')
-      .attr('r', getNodeRadius)
-      .attr('fill', getNodeColor)
+      .attr('r', getRadius)
+      .attr('fill', getColor)
       .attr('stroke', getStrokeColor)
       .attr('stroke-width', getStrokeWidth)
+      .attr('stroke-dasharray', getNodeDashArray)
       .style('pointer-events', 'none')
 
+    // Badges for packages whose manifest, lockfile and node_modules disagree
+    const driftBadges = nodeGroup
+      .selectAll('.drift-badge')
+      .data(filteredNodes.filter((d) => d.drift && d.drift.length > 0))
+      .join('circle')
+      .attr('class', 'drift-badge')
+      .attr('r', 4)
+      .attr('fill', '#f97316')
+      .attr('stroke', '#111827')
+      .attr('stroke-width', 1)
+      .style('pointer-events', 'none')
+
+    // Unmet, incompatible or ambiguous peer dependencies
+    const peerBadges = nodeGroup
+      .selectAll('.peer-badge')
+      .data(filteredNodes.filter((d) => d.peerIssues && d.peerIssues.length > 0))
+      .join('circle')
+      .attr('class', 'peer-badge')
+      .attr('r', 4)
+      .attr('fill', '#eab308')
+      .attr('stroke', '#111827')
+      .attr('stroke-width', 1)
+      .style('pointer-events', 'none')
+
+    // Number of dependencies the analysis limits left out, expanded on double-click
+    const expandBadges = nodeGroup
+      .selectAll('.expand-badge')
+      .data(filteredNodes.filter((d) => d.omittedChildren))
+      .join('text')
+      .attr('class', 'expand-badge')
+      .attr('font-size', 9)
+      .attr('fill', '#38bdf8')
+      .style('pointer-events', 'none')
+      .text((d) => `+${d.omittedChildren}`)
+
+    nodeHoverAreas.on('dblclick', (event, d) => {
+      if (!d.omittedChildren || !onExpandNodeRef.current) return
+      // Keeps the zoom behavior from zooming in on the same double-click
+      event.stopPropagation()
+      onExpandNodeRef.current(d)
+    })
+
     // Handling events on invisible areas
     nodeHoverAreas
       .on('mouseenter', (_event, d) => {
@@ -180,7 +245,7 @@ export const Graph = memo(function GraphMemo(props: {
           .filter((nodeD) => nodeD.id === d.id)
           .transition()
           .duration(200)
-          .attr('r', getNodeRadius(d) * 1.5)
+          .attr('r', getRadius(d) * 1.5)
 
         // Find all linked nodes
         const connectedNodeIds = findAllConnectedNodes(d.id, filteredLinks)
@@ -217,7 +282,7 @@ export const Graph = memo(function GraphMemo(props: {
           .filter((nodeD) => nodeD.id === d.id)
           .transition()
           .duration(200)
-          .attr('r', getNodeRadius(d))
+          .attr('r', getRadius(d))
 
         // Return the transparency of the lines
         linkSelection.transition().duration(200).attr('stroke-opacity', 0.4).attr('stroke-width', 1.5)
@@ -381,9 +446,10 @@ export const Graph = memo(function GraphMemo(props: {
     }
 
     // Simulation setup
+    // Nodes that were already laid out keep their places, so a redraw only needs a gentle restart
     const simulation = d3
       .forceSimulation<NodeDatum>(filteredNodes)
-      .alpha(1)
+      .alpha(filteredNodes.some((d) => d.x !== undefined) ? 0.3 : 1)
       .velocityDecay(0.1)
       .force(
         'link',
@@ -408,7 +474,7 @@ export const Graph = memo(function GraphMemo(props: {
         'collide',
         d3
           .forceCollide<NodeDatum>()
-          .radius((d: NodeDatum) => getNodeRadius(d) + 3)
+          .radius((d: NodeDatum) => getRadius(d) + 3)
           .strength(0.9),
       )
       .force(
@@ -467,13 +533,19 @@ export const Graph = memo(function GraphMemo(props: {
 
       nodeHoverAreas.attr('cx', (d: NodeDatum) => d.x || 0).attr('cy', (d: NodeDatum) => d.y || 0)
       nodeSelection.attr('cx', (d: NodeDatum) => d.x || 0).attr('cy', (d: NodeDatum) => d.y || 0)
+      driftBadges
+        .attr('cx', (d: NodeDatum) => (d.x || 0) + getRadius(d) * 0.7)
+        .attr('cy', (d: NodeDatum) => (d.y || 0) - getRadius(d) * 0.7)
+      peerBadges
+        .attr('cx', (d: NodeDatum) => (d.x || 0) - getRadius(d) * 0.7)
+        .attr('cy', (d: NodeDatum) => (d.y || 0) - getRadius(d) * 0.7)
+      expandBadges
+        .attr('x', (d: NodeDatum) => (d.x || 0) + getRadius(d) + 2)
+        .attr('y', (d: NodeDatum) => (d.y || 0) + getRadius(d))
 
-      permanentLabels.attr(
-        'transform',
-        (d: NodeDatum) => `translate(${d.x || 0}, ${(d.y || 0) + getNodeRadius(d) + 15})`,
-      )
+      permanentLabels.attr('transform', (d: NodeDatum) => `translate(${d.x || 0}, ${(d.y || 0) + getRadius(d) + 15})`)
 
-      hoverLabels.attr('transform', (d: NodeDatum) => `translate(${d.x || 0}, ${(d.y || 0) - getNodeRadius(d) - 20})`)
+      hoverLabels.attr('transform', (d: NodeDatum) => `translate(${d.x || 0}, ${(d.y || 0) - getRadius(d) - 20})`)
 
       updateWorkspaceAreas()
     })
@@ -492,7 +564,7 @@ export const Graph = memo(function GraphMemo(props: {
         simRef.current.stop()
       }
     }
-  }, [filteredNodes, filteredLinks, workspaces, size])
+  }, [filteredNodes, filteredLinks, workspaces, size, nodeSizeBy, nodeColorBy])
 
   return (
     <div ref={containerRef} className="w-full h-full">
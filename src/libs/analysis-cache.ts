@@ -0,0 +1,118 @@
+import { createHash } from 'node:crypto'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+
+// Bump when the shape of cached data changes, so older entries are ignored
+const cacheVersion = 5
+
+// Files package managers rewrite on every install, next to the node_modules folder mtime
+const installMarkers = [
+  'node_modules',
+  'node_modules/.package-lock.json',
+  'node_modules/.modules.yaml',
+  'node_modules/.pnpm',
+  'node_modules/.yarn-state.yml',
+  'node_modules/.yarn-integrity',
+  '.pnp.cjs',
+]
+
+export class AnalysisCache {
+  readonly cacheDir: string
+
+  constructor(rootPath: string) {
+    const nodeModulesPath = path.join(rootPath, 'node_modules')
+    this.cacheDir = fs.existsSync(nodeModulesPath)
+      ? path.join(nodeModulesPath, '.cache', 'depegraph')
+      : path.join(
+          os.tmpdir(),
+          'depegraph',
+          createHash('sha1').update(path.resolve(rootPath)).digest('hex').slice(0, 16),
+        )
+
+    // Created up front, so the new folder does not change the node_modules mtime between two runs
+    try {
+      fs.mkdirSync(this.cacheDir, { recursive: true })
+    } catch (error) {
+      console.warn(`⚠️ Cache disabled, cannot create ${this.cacheDir}:`, error)
+    }
+  }
+
+  hashFiles(filePaths: string[]): string {
+    const hash = createHash('sha1').update(String(cacheVersion))
+    for (const filePath of [...filePaths].sort()) {
+      hash.update(filePath)
+      try {
+        hash.update(fs.readFileSync(filePath))
+      } catch (_error) {
+        hash.update('-')
+      }
+    }
+    return hash.digest('hex')
+  }
+
+  hashValue(value: unknown): string {
+    return createHash('sha1').update(JSON.stringify(value)).digest('hex')
+  }
+
+  // Cheap fingerprint of the installed state: no walk, only a few stats per project
+  getInstallStamp(projectDirs: string[]): string {
+    const stamps = Array.from(new Set(projectDirs))
+      .sort()
+      .flatMap((projectDir) =>
+        installMarkers.map((marker) => `${marker}:${this.getMtime(path.join(projectDir, marker))}`),
+      )
+
+    return createHash('sha1').update(stamps.join('\n')).digest('hex')
+  }
+
+  getMtime(filePath: string): number {
+    try {
+      return fs.statSync(filePath).mtimeMs
+    } catch (_error) {
+      return 0
+    }
+  }
+
+  read<T>(name: string, key: string): T | null {
+    try {
+      const content = fs.readFileSync(this.getEntryPath(name), 'utf8')
+      const entry = JSON.parse(content, reviveCollections)
+      return entry.version === cacheVersion && entry.key === key ? (entry.value as T) : null
+    } catch (_error) {
+      return null
+    }
+  }
+
+  write(name: string, key: string, value: unknown): void {
+    try {
+      const entryPath = this.getEntryPath(name)
+      // Written aside and renamed, so a concurrent read never sees half a file
+      const tempPath = `${entryPath}.${process.pid}.tmp`
+      fs.writeFileSync(tempPath, JSON.stringify({ version: cacheVersion, key, value }, replaceCollections))
+      fs.renameSync(tempPath, entryPath)
+    } catch (error) {
+      console.warn(`⚠️ Cache write error ${name}:`, error)
+    }
+  }
+
+  // Names that carry a path, like a lockfile's, are hashed into a flat file name
+  private getEntryPath(name: string): string {
+    const fileName = /^[\w-]+$/.test(name) ? name : createHash('sha1').update(name).digest('hex').slice(0, 16)
+    return path.join(this.cacheDir, `${fileName}.json`)
+  }
+}
+
+function replaceCollections(_key: string, value: unknown): unknown {
+  if (value instanceof Map) return { $map: Array.from(value.entries()) }
+  if (value instanceof Set) return { $set: Array.from(value) }
+  return value
+}
+
+function reviveCollections(_key: string, value: unknown): unknown {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    if ('$map' in value) return new Map(value.$map as Array<[unknown, unknown]>)
+    if ('$set' in value) return new Set(value.$set as unknown[])
+  }
+  return value
+}
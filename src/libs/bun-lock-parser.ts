@@ -0,0 +1,182 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { getEdgeTypes, isPeerEdgeType, setEdgeType } from '@/libs/dependency-edge-types'
+import { getPackageKey, parseJsonc } from '@/libs/utils'
+import type { DependencyEdgeType, ImporterDependency, InstalledPackage } from '@/types'
+
+interface BunWorkspace {
+  name?: string
+  dependencies?: Record<string, string>
+  devDependencies?: Record<string, string>
+  optionalDependencies?: Record<string, string>
+}
+
+interface BunPackageMeta {
+  dependencies?: Record<string, string>
+  optionalDependencies?: Record<string, string>
+  peerDependencies?: Record<string, string>
+  optionalPeers?: string[]
+  // Set on a package that ships inside its dependent's tarball
+  bundled?: boolean
+}
+
+// Each package is a tuple whose first item is the resolved `name@version` and which may carry a metadata object
+type BunPackageEntry = [string, ...unknown[]]
+
+interface BunLockfile {
+  lockfileVersion?: number
+  workspaces?: Record<string, BunWorkspace>
+  packages?: Record<string, BunPackageEntry>
+}
+
+const workspaceSections = [
+  { section: 'dependencies', type: 'dependency' },
+  { section: 'devDependencies', type: 'devDependency' },
+  { section: 'optionalDependencies', type: 'optionalDependency' },
+] as const
+
+export class BunLockParser {
+  private readonly lockPath: string
+
+  constructor(lockPath: string) {
+    this.lockPath = lockPath
+  }
+
+  parse(
+    installedPackages: Map<string, InstalledPackage>,
+    dependencyTree: Map<string, Set<string>>,
+    importers: Map<string, ImporterDependency[]>,
+    declaredRanges?: Map<string, Map<string, string>>,
+    edgeTypes?: Map<string, Map<string, DependencyEdgeType>>,
+  ): void {
+    const content = fs.readFileSync(this.lockPath, 'utf8')
+    const lock = parseJsonc(content) as BunLockfile
+    const packages = lock.packages || {}
+
+    for (const [key, entry] of Object.entries(packages)) {
+      if (!Array.isArray(entry) || typeof entry[0] !== 'string') continue
+
+      const resolved = this.parseIdent(entry[0])
+      if (!resolved || resolved.version.startsWith('workspace:')) continue
+
+      // Keys are install paths such as `react-dom/scheduler`, the last segment is the name dependents use
+      const packageName = this.getKeyName(key)
+      const packageKey = getPackageKey(packageName, resolved.version)
+      if (!installedPackages.has(packageKey)) {
+        installedPackages.set(packageKey, {
+          name: packageName,
+          version: resolved.version,
+          // Registry packages have a plain version; git and tarball ones keep their source in its place
+          resolved: resolved.version.includes(':') ? resolved.version : undefined,
+          realName: resolved.name !== packageName ? resolved.name : undefined,
+        })
+      }
+
+      const meta = this.getMeta(entry)
+      const allDeps = {
+        ...meta?.peerDependencies,
+        ...meta?.dependencies,
+        ...meta?.optionalDependencies,
+      }
+      const types = getEdgeTypes({
+        ...meta,
+        peerDependenciesMeta: Object.fromEntries((meta?.optionalPeers || []).map((name) => [name, { optional: true }])),
+      })
+
+      if (Object.keys(allDeps).length > 0) {
+        const deps = dependencyTree.get(packageKey) || new Set<string>()
+        const ranges = declaredRanges?.get(packageKey) || new Map<string, string>()
+        for (const [depName, range] of Object.entries(allDeps)) {
+          const isPeer = isPeerEdgeType(types.get(depName))
+          ranges.set(depName, range)
+
+          const depEntry = this.resolvePackageEntry(key, depName, packages)
+          const depResolved = depEntry ? this.parseIdent(depEntry[0]) : null
+          if (depResolved?.version.startsWith('workspace:')) continue
+          // Peers are only edges when something installed them
+          if (isPeer && !depResolved) continue
+
+          const depKey = getPackageKey(depName, depResolved?.version || range)
+          const edgeType = depEntry && this.getMeta(depEntry)?.bundled ? 'bundled' : types.get(depName)
+          if (depKey !== packageKey) {
+            deps.add(depKey)
+            setEdgeType(edgeTypes, packageKey, depKey, edgeType)
+          }
+        }
+        dependencyTree.set(packageKey, deps)
+        declaredRanges?.set(packageKey, ranges)
+      }
+    }
+
+    this.parseWorkspaces(lock, importers)
+  }
+
+  private parseWorkspaces(lock: BunLockfile, importers: Map<string, ImporterDependency[]>): void {
+    const lockDir = path.dirname(this.lockPath)
+    const packages = lock.packages || {}
+
+    for (const [workspacePath, workspace] of Object.entries(lock.workspaces || {})) {
+      const workspaceDir = path.join(lockDir, workspacePath)
+      const dependencies = importers.get(workspaceDir) || []
+
+      for (const { section, type } of workspaceSections) {
+        for (const [name, range] of Object.entries(workspace?.[section] || {})) {
+          // Versions that differ from the hoisted one are nested under the workspace name
+          const entry = (workspace.name && packages[`${workspace.name}/${name}`]) || packages[name]
+          const resolved = Array.isArray(entry) && typeof entry[0] === 'string' ? this.parseIdent(entry[0]) : null
+
+          let version = resolved?.version || range
+          if (version.startsWith('workspace:')) {
+            version = `link:${path.relative(workspacePath, version.substring('workspace:'.length)) || '.'}`
+          }
+
+          dependencies.push({ name, version, type })
+        }
+      }
+
+      if (dependencies.length > 0) {
+        importers.set(workspaceDir, dependencies)
+      }
+    }
+  }
+
+  // Mirrors node resolution: look next to the dependent first, then in each parent install path
+  private resolvePackageEntry(
+    fromKey: string,
+    depName: string,
+    packages: Record<string, BunPackageEntry>,
+  ): BunPackageEntry | undefined {
+    let parentKey: string | null = fromKey
+
+    while (parentKey) {
+      const entry = packages[`${parentKey}/${depName}`]
+      if (Array.isArray(entry) && typeof entry[0] === 'string') return entry
+      parentKey = this.getParentKey(parentKey)
+    }
+
+    const entry = packages[depName]
+    return Array.isArray(entry) && typeof entry[0] === 'string' ? entry : undefined
+  }
+
+  private getParentKey(key: string): string | null {
+    const name = this.getKeyName(key)
+    return key.length > name.length ? key.substring(0, key.length - name.length - 1) : null
+  }
+
+  private getMeta(entry: BunPackageEntry): BunPackageMeta | undefined {
+    return entry.find((item): item is BunPackageMeta => !!item && typeof item === 'object' && !Array.isArray(item))
+  }
+
+  private parseIdent(ident: string): { name: string; version: string } | null {
+    const atIndex = ident.indexOf('@', 1)
+    if (atIndex <= 0) return null
+    return { name: ident.substring(0, atIndex), version: ident.substring(atIndex + 1) }
+  }
+
+  private getKeyName(key: string): string {
+    const segments = key.split('/')
+    const last = segments[segments.length - 1]
+    const parent = segments[segments.length - 2]
+    return parent?.startsWith('@') ? `${parent}/${last}` : last
+  }
+}
@@ -0,0 +1,145 @@
+import type { DependencyEdge, PackageMetrics } from '@/types'
+
+const DAMPING = 0.85
+const MAX_ITERATIONS = 100
+const TOLERANCE = 1e-9
+
+export class CentralityAnalyzer {
+  private readonly packageKeys: string[]
+  private readonly successors: number[][]
+  // Filled on first use: betweenness runs one search per package
+  private metrics: Map<string, Omit<PackageMetrics, 'dominatedPackages'>> | null = null
+
+  constructor(options: { dependencies: Map<string, DependencyEdge[]> }) {
+    const indices = new Map<string, number>()
+    const indexOf = (packageKey: string): number => {
+      let index = indices.get(packageKey)
+      if (index === undefined) {
+        index = indices.size
+        indices.set(packageKey, index)
+      }
+      return index
+    }
+
+    // Several edges between the same two packages (e.g. a dependency and its alias) count once
+    const targetsBySource = new Map<number, Set<number>>()
+    for (const [packageKey, dependencyEdges] of options.dependencies.entries()) {
+      const source = indexOf(packageKey)
+      const targets = targetsBySource.get(source) || new Set<number>()
+      for (const { depKey } of dependencyEdges) {
+        const target = indexOf(depKey)
+        if (target !== source) targets.add(target)
+      }
+      targetsBySource.set(source, targets)
+    }
+
+    this.packageKeys = Array.from(indices.keys())
+    this.successors = this.packageKeys.map((_, index) => Array.from(targetsBySource.get(index) || []))
+  }
+
+  getMetrics(packageKey: string): Omit<PackageMetrics, 'dominatedPackages'> {
+    return this.computeMetrics().get(packageKey) || { pageRank: 0, betweenness: 0, transitiveDependents: 0 }
+  }
+
+  getPackageKeys(): string[] {
+    return Array.from(this.computeMetrics().keys())
+  }
+
+  private computeMetrics(): Map<string, Omit<PackageMetrics, 'dominatedPackages'>> {
+    if (this.metrics) return this.metrics
+
+    const pageRank = this.computePageRank()
+    const { betweenness, transitiveDependents } = this.computeBetweenness()
+    this.metrics = new Map(
+      this.packageKeys.map((packageKey, index) => [
+        packageKey,
+        {
+          pageRank: pageRank[index],
+          betweenness: betweenness[index],
+          transitiveDependents: transitiveDependents[index],
+        },
+      ]),
+    )
+
+    return this.metrics
+  }
+
+  // Rank flows from dependents to their dependencies; packages without dependencies spread theirs over every package
+  private computePageRank(): Float64Array {
+    const count = this.packageKeys.length
+    let rank = new Float64Array(count).fill(1 / count)
+
+    for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+      const next = new Float64Array(count)
+      let danglingRank = 0
+
+      this.successors.forEach((targets, source) => {
+        if (targets.length === 0) {
+          danglingRank += rank[source]
+          return
+        }
+        for (const target of targets) next[target] += rank[source] / targets.length
+      })
+
+      let delta = 0
+      for (let index = 0; index < count; index++) {
+        next[index] = (1 - DAMPING) / count + DAMPING * (next[index] + danglingRank / count)
+        delta += Math.abs(next[index] - rank[index])
+      }
+
+      rank = next
+      if (delta < TOLERANCE) break
+    }
+
+    return rank
+  }
+
+  // Brandes' algorithm on the unweighted directed graph. Each search also tells which packages its source reaches,
+  // which counts the transitive dependents of every package along the way
+  private computeBetweenness(): { betweenness: Float64Array; transitiveDependents: Int32Array } {
+    const count = this.packageKeys.length
+    const betweenness = new Float64Array(count)
+    const transitiveDependents = new Int32Array(count)
+    const paths = new Float64Array(count)
+    const distance = new Int32Array(count)
+    const dependency = new Float64Array(count)
+    const predecessors: number[][] = this.packageKeys.map(() => [])
+
+    for (let source = 0; source < count; source++) {
+      if (this.successors[source].length === 0) continue
+
+      paths.fill(0)
+      distance.fill(-1)
+      dependency.fill(0)
+      paths[source] = 1
+      distance[source] = 0
+
+      const order = [source]
+      for (let index = 0; index < order.length; index++) {
+        const node = order[index]
+        for (const target of this.successors[node]) {
+          if (distance[target] === -1) {
+            distance[target] = distance[node] + 1
+            predecessors[target] = []
+            order.push(target)
+          }
+          if (distance[target] === distance[node] + 1) {
+            paths[target] += paths[node]
+            predecessors[target].push(node)
+          }
+        }
+      }
+
+      for (let index = order.length - 1; index > 0; index--) {
+        const node = order[index]
+        for (const predecessor of predecessors[node]) {
+          dependency[predecessor] += (paths[predecessor] / paths[node]) * (1 + dependency[node])
+        }
+        betweenness[node] += dependency[node]
+        transitiveDependents[node]++
+      }
+    }
+
+    return { betweenness, transitiveDependents }
+  }
+}
@@ -0,0 +1,187 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import type { DepegraphConfig, DepegraphConfigInput, LinkDatum, PathFilter } from '@/types'
+
+const configFileNames = ['.depegraphrc', '.depegraphrc.json', '.depegraphrc.js', '.depegraphrc.cjs']
+
+const dependencyTypes: LinkDatum['type'][] = ['dependency', 'devDependency', 'peerDependency', 'optionalDependency']
+
+const graphModes: DepegraphConfig['graphMode'][] = ['tree', 'dag', 'dependents']
+
+const dependencyScopes: DepegraphConfig['dependencyScope'][] = ['all', 'production', 'development']
+
+// Manifests and lockfiles inside node_modules are always skipped, on top of the configured excludes
+export const defaultConfig: DepegraphConfig = {
+  maxDepth: 3,
+  maxNodesPerTree: 100000,
+  maxDependenciesPerNode: 500,
+  maxPerNode: 100,
+  manifests: {
+    include: ['**/package.json'],
+    exclude: ['**/.next/**', '**/dist/**', '**/build/**', '**/coverage/**'],
+  },
+  lockfiles: {
+    include: ['**/yarn.lock', '**/package-lock.json', '**/pnpm-lock.yaml', '**/bun.lock'],
+    exclude: [],
+  },
+  nodeModules: {
+    include: ['**'],
+    exclude: [],
+  },
+  dependencyTypes,
+  graphMode: 'tree',
+  focusPackage: null,
+  dependencyScope: 'all',
+  cache: true,
+  allowedCycles: [],
+}
+
+// Defaults, then the project's `.depegraphrc`, then the CLI flags, then the caller's overrides
+export async function loadConfig(rootPath: string, overrides: DepegraphConfigInput = {}): Promise<DepegraphConfig> {
+  const cliConfig = readCliConfig()
+  const configFile = process.env.DEPEGRAPH_CONFIG_FILE || findConfigFile(rootPath)
+  const fileConfig = configFile ? await readConfigFile(path.resolve(rootPath, configFile)) : {}
+
+  return [fileConfig, cliConfig, overrides].reduce<DepegraphConfig>(mergeConfig, defaultConfig)
+}
+
+// Per-request options of the analyze API
+export function getConfigFromQuery(query: {
+  graphMode?: string | string[]
+  focusPackage?: string | string[]
+  dependencyScope?: string | string[]
+}): DepegraphConfigInput {
+  const graphMode = Array.isArray(query.graphMode) ? query.graphMode[0] : query.graphMode
+  const focusPackage = Array.isArray(query.focusPackage) ? query.focusPackage[0] : query.focusPackage
+  const dependencyScope = Array.isArray(query.dependencyScope) ? query.dependencyScope[0] : query.dependencyScope
+
+  return {
+    ...(graphMode && { graphMode: graphMode as DepegraphConfig['graphMode'] }),
+    ...(focusPackage && { focusPackage }),
+    ...(dependencyScope && { dependencyScope: dependencyScope as DepegraphConfig['dependencyScope'] }),
+  }
+}
+
+function findConfigFile(rootPath: string): string | null {
+  return configFileNames.map((fileName) => path.join(rootPath, fileName)).find((file) => fs.existsSync(file)) || null
+}
+
+async function readConfigFile(configFile: string): Promise<DepegraphConfigInput> {
+  try {
+    if (/\.c?js$/.test(configFile)) {
+      // Loaded by Node at runtime, not bundled
+      const loaded = await import(/* webpackIgnore: true */ pathToFileURL(configFile).href)
+      return loaded.default || loaded
+    }
+
+    return JSON.parse(fs.readFileSync(configFile, 'utf8'))
+  } catch (error) {
+    console.warn(`⚠️ Config error ${configFile}:`, error)
+    return {}
+  }
+}
+
+// The CLI passes its flags to the server through the environment
+function readCliConfig(): DepegraphConfigInput {
+  if (!process.env.DEPEGRAPH_CONFIG) return {}
+
+  try {
+    return JSON.parse(process.env.DEPEGRAPH_CONFIG)
+  } catch (error) {
+    console.warn('⚠️ Invalid DEPEGRAPH_CONFIG:', error)
+    return {}
+  }
+}
+
+// Invalid values are reported and left at their previous value rather than failing the analysis
+function mergeConfig(config: DepegraphConfig, input: DepegraphConfigInput): DepegraphConfig {
+  const merged = { ...config }
+
+  for (const key of ['maxDepth', 'maxNodesPerTree', 'maxDependenciesPerNode', 'maxPerNode'] as const) {
+    const value = input[key]
+    if (value === undefined) continue
+
+    if (Number.isInteger(value) && value >= 0) {
+      merged[key] = value
+    } else {
+      console.warn(`⚠️ Config ${key} must be a non-negative integer, got ${JSON.stringify(value)}`)
+    }
+  }
+
+  for (const key of ['manifests', 'lockfiles', 'nodeModules'] as const) {
+    if (input[key] !== undefined) {
+      merged[key] = mergePathFilter(key, config[key], input[key])
+    }
+  }
+
+  if (input.dependencyTypes !== undefined) {
+    const types = Array.isArray(input.dependencyTypes) ? input.dependencyTypes : []
+    const unknownTypes = types.filter((type) => !dependencyTypes.includes(type))
+    if (unknownTypes.length > 0) {
+      console.warn(`⚠️ Config dependencyTypes ignores ${unknownTypes.join(', ')}, use ${dependencyTypes.join(', ')}`)
+    }
+    merged.dependencyTypes = types.filter((type) => dependencyTypes.includes(type))
+  }
+
+  if (input.graphMode !== undefined) {
+    if (graphModes.includes(input.graphMode)) {
+      merged.graphMode = input.graphMode
+    } else {
+      console.warn(`⚠️ Config graphMode must be ${graphModes.join(', ')}, got ${JSON.stringify(input.graphMode)}`)
+    }
+  }
+
+  if (input.focusPackage !== undefined) {
+    if (input.focusPackage === null || typeof input.focusPackage === 'string') {
+      merged.focusPackage = input.focusPackage
+    } else {
+      console.warn(`⚠️ Config focusPackage must be a package name, got ${JSON.stringify(input.focusPackage)}`)
+    }
+  }
+
+  if (input.dependencyScope !== undefined) {
+    if (dependencyScopes.includes(input.dependencyScope)) {
+      merged.dependencyScope = input.dependencyScope
+    } else {
+      console.warn(
+        `⚠️ Config dependencyScope must be ${dependencyScopes.join(', ')}, got ${JSON.stringify(input.dependencyScope)}`,
+      )
+    }
+  }
+
+  if (input.cache !== undefined) {
+    merged.cache = !!input.cache
+  }
+
+  if (input.allowedCycles !== undefined) {
+    const cycles = input.allowedCycles
+    if (
+      Array.isArray(cycles) &&
+      cycles.every((names) => Array.isArray(names) && names.every((name) => typeof name === 'string'))
+    ) {
+      merged.allowedCycles = cycles
+    } else {
+      console.warn('⚠️ Config allowedCycles must be a list of package name lists')
+    }
+  }
+
+  return merged
+}
+
+function mergePathFilter(key: string, filter: PathFilter, input: Partial<PathFilter> | undefined): PathFilter {
+  const merged = { ...filter }
+
+  for (const field of ['include', 'exclude'] as const) {
+    const globs = input?.[field]
+    if (globs === undefined) continue
+
+    if (Array.isArray(globs) && globs.every((glob) => typeof glob === 'string')) {
+      merged[field] = globs
+    } else {
+      console.warn(`⚠️ Config ${key}.${field} must be a list of globs`)
+    }
+  }
+
+  return merged
+}
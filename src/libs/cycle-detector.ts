@@ -0,0 +1,151 @@
+import { parsePackageKey } from '@/libs/utils'
+import type { DependencyCycle } from '@/types'
+
+export class CycleDetector {
+  private readonly dependencies: Map<string, Set<string>>
+  private readonly workspaceKeys: Set<string>
+  private readonly allowedCycles: string[][]
+
+  constructor(options: {
+    dependencies: Map<string, Set<string>>
+    workspaceKeys: Set<string>
+    // Each entry lists the package names of one cycle that is already known and accepted
+    allowedCycles: string[][]
+  }) {
+    this.dependencies = options.dependencies
+    this.workspaceKeys = options.workspaceKeys
+    this.allowedCycles = options.allowedCycles
+  }
+
+  detect(): DependencyCycle[] {
+    // Workspace cycles are searched among workspace edges alone, so an external package in the loop cannot hide them
+    const workspaceDependencies = new Map<string, Set<string>>()
+    for (const packageKey of this.workspaceKeys) {
+      const deps = Array.from(this.dependencies.get(packageKey) || []).filter((depKey) =>
+        this.workspaceKeys.has(depKey),
+      )
+      workspaceDependencies.set(packageKey, new Set(deps))
+    }
+
+    const workspaceCycles = this.findCyclicComponents(workspaceDependencies).map((members) =>
+      this.createCycle('workspace', members, workspaceDependencies),
+    )
+
+    const dependencyCycles = this.findCyclicComponents(this.dependencies)
+      .filter((members) => members.some((packageKey) => !this.workspaceKeys.has(packageKey)))
+      .map((members) => this.createCycle('dependency', members, this.dependencies))
+
+    return [...workspaceCycles, ...dependencyCycles]
+  }
+
+  private createCycle(
+    kind: DependencyCycle['kind'],
+    members: string[],
+    dependencies: Map<string, Set<string>>,
+  ): DependencyCycle {
+    const packages = [...members].sort()
+    const names = new Set(packages.map((packageKey) => parsePackageKey(packageKey).name))
+    const allowed = this.allowedCycles.some(
+      (allowedNames) => allowedNames.length === names.size && allowedNames.every((name) => names.has(name)),
+    )
+
+    return { kind, packages, path: this.findCyclePath(packages, dependencies), allowed }
+  }
+
+  // Tarjan's algorithm, iterative so deep dependency chains cannot overflow the stack
+  private findCyclicComponents(dependencies: Map<string, Set<string>>): string[][] {
+    const indices = new Map<string, number>()
+    const lowLinks = new Map<string, number>()
+    const stack: string[] = []
+    const onStack = new Set<string>()
+    const components: string[][] = []
+    let nextIndex = 0
+
+    const nodes = new Set<string>(dependencies.keys())
+    for (const deps of dependencies.values()) {
+      for (const depKey of deps) nodes.add(depKey)
+    }
+
+    for (const start of nodes) {
+      if (indices.has(start)) continue
+
+      const frames: Array<{ node: string; neighbors: Iterator<string> }> = []
+      const visit = (node: string) => {
+        indices.set(node, nextIndex)
+        lowLinks.set(node, nextIndex)
+        nextIndex++
+        stack.push(node)
+        onStack.add(node)
+        frames.push({ node, neighbors: (dependencies.get(node) || new Set<string>()).values() })
+      }
+      visit(start)
+
+      while (frames.length > 0) {
+        const frame = frames[frames.length - 1]
+        const next = frame.neighbors.next()
+
+        if (!next.done) {
+          if (!indices.has(next.value)) {
+            visit(next.value)
+          } else if (onStack.has(next.value)) {
+            lowLinks.set(frame.node, Math.min(lowLinks.get(frame.node) ?? 0, indices.get(next.value) ?? 0))
+          }
+          continue
+        }
+
+        frames.pop()
+        const parent = frames[frames.length - 1]
+        if (parent) {
+          lowLinks.set(parent.node, Math.min(lowLinks.get(parent.node) ?? 0, lowLinks.get(frame.node) ?? 0))
+        }
+
+        if (lowLinks.get(frame.node) === indices.get(frame.node)) {
+          const component: string[] = []
+          let member: string | undefined
+          do {
+            member = stack.pop() as string
+            onStack.delete(member)
+            component.push(member)
+          } while (member !== frame.node)
+
+          // A single package only forms a cycle when it depends on itself
+          if (component.length > 1 || dependencies.get(frame.node)?.has(frame.node)) {
+            components.push(component)
+          }
+        }
+      }
+    }
+
+    return components
+  }
+
+  // Shortest loop from the first member back to itself, staying inside the component
+  private findCyclePath(members: string[], dependencies: Map<string, Set<string>>): string[] {
+    const start = members[0]
+    const memberSet = new Set(members)
+    const previous = new Map<string, string>()
+    const queue = [start]
+
+    for (let index = 0; index < queue.length; index++) {
+      const current = queue[index]
+      for (const depKey of dependencies.get(current) || []) {
+        if (!memberSet.has(depKey)) continue
+
+        if (depKey === start) {
+          const path = [start]
+          for (let node: string | undefined = current; node && node !== start; node = previous.get(node)) {
+            path.splice(1, 0, node)
+          }
+          return [start, ...path.slice(1), start]
+        }
+
+        if (!previous.has(depKey)) {
+          previous.set(depKey, current)
+          queue.push(depKey)
+        }
+      }
+    }
+
+    return [start]
+  }
+}
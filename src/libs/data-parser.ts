@@ -3,37 +3,254 @@ import * as path from 'node:path'
 import Arborist from '@npmcli/arborist'
 import * as lockfile from '@yarnpkg/lockfile'
 import { glob } from 'glob'
+import { minimatch } from 'minimatch'
+
+import { getPackageKey, parsePackageKey } from '@/libs/utils'
+import type {
+  AnalysisOptions,
+  AnalysisProgress,
+  DepegraphConfig,
+  DependencyEdgeType,
+  DependencySource,
+  ImporterDependency,
+  InstalledPackage,
+  InstallLocation,
+  LinkDatum,
+  OverrideReport,
+  PackageInfo,
+  ParsedData,
+} from '@/types'
+import type { AnalysisCache } from './analysis-cache'
+import { BunLockParser } from './bun-lock-parser'
+import { defaultConfig } from './config-loader'
+import { getEdgeTypes, isPeerEdgeType, setEdgeType } from './dependency-edge-types'
+import { DriftDetector } from './drift-detector'
+import { InstallTreeScanner } from './install-tree-scanner'
+import { OverrideAnalyzer, parseOverrideRules } from './override-analyzer'
+import { PeerDependencyResolver } from './peer-dependency-resolver'
+import { PnpmLockParser } from './pnpm-lock-parser'
+import { findRangeViolations } from './range-checker'
+import { SourceClassifier } from './source-classifier'
+import { WorkspaceDetector } from './workspace-detector'
+import { YarnBerryLockParser } from './yarn-berry-lock-parser'
+
+type LockFileType = 'yarn' | 'yarn-berry' | 'npm' | 'pnpm' | 'bun'
+
+// What one lockfile contributes, cached on its own so an unchanged lockfile is never parsed twice
+interface LockFileData {
+  installedPackages: Map<string, InstalledPackage>
+  dependencyTree: Map<string, Set<string>>
+  importers: Map<string, ImporterDependency[]>
+  declaredRanges: Map<string, Map<string, string>>
+  edgeTypes: Map<string, Map<string, DependencyEdgeType>>
+}
+
+const lockFileNames = ['yarn.lock', 'package-lock.json', 'pnpm-lock.yaml', 'bun.lock'] as const
+const lockFileTypes: Record<(typeof lockFileNames)[number], LockFileType> = {
+  'yarn.lock': 'yarn',
+  'package-lock.json': 'npm',
+  'pnpm-lock.yaml': 'pnpm',
+  'bun.lock': 'bun',
+}
 
-import type { PackageInfo, ParsedData, WorkspaceInfo } from '@/types'
+// Besides manifests and lockfiles, these change what the analysis finds
+const projectConfigFiles = ['pnpm-workspace.yaml', 'lerna.json', 'rush.json', '.npmrc', '.yarnrc', '.yarnrc.yml']
+
+const progressInterval = 200
 
 export class DataParser {
   private rootPath: string
-
-  constructor(rootPath: string) {
+  private readonly config: DepegraphConfig
+  private readonly options: AnalysisOptions
+  private readonly cache: AnalysisCache | null
+  private readonly installedVersionCache = new Map<string, string | null>()
+
+  constructor(
+    rootPath: string,
+    config: DepegraphConfig = defaultConfig,
+    options: AnalysisOptions = {},
+    cache: AnalysisCache | null = null,
+  ) {
     this.rootPath = rootPath
+    this.config = config
+    this.options = options
+    this.cache = cache
   }
 
   async parseProject(): Promise<ParsedData> {
+    await this.reportProgress({ phase: 'packages', message: 'Finding packages' })
     const packages = await this.findPackages()
-    const workspaces = this.detectWorkspaces(packages)
-    const installedPackages = new Map<string, { version: string; size?: number }>()
+    await this.reportProgress({
+      phase: 'packages',
+      message: `Found ${packages.length} package.json files`,
+      current: packages.length,
+      total: packages.length,
+    })
+
+    const lockFiles = await this.findLockFiles()
+    const cacheKey = this.getCacheKey(packages, lockFiles)
+    const cached = cacheKey ? this.cache?.read<ParsedData>('parsed-data', cacheKey) : null
+    if (cached) {
+      await this.reportProgress({ phase: 'node-modules', message: 'Reused cached analysis', current: 1, total: 1 })
+      return cached
+    }
+
+    const { workspaces, unassignedPackages } = await new WorkspaceDetector(this.rootPath, packages).detect()
+    const installedPackages = new Map<string, InstalledPackage>()
     const dependencyTree = new Map<string, Set<string>>()
+    const importers = new Map<string, ImporterDependency[]>()
+    const declaredRanges = new Map<string, Map<string, string>>()
+    const edgeTypes = new Map<string, Map<string, DependencyEdgeType>>()
+
+    await this.analyzeLockFiles(
+      lockFiles,
+      packages,
+      installedPackages,
+      dependencyTree,
+      importers,
+      declaredRanges,
+      edgeTypes,
+    )
+    // Keep the lockfile view apart before node_modules is merged in, so drift stays visible
+    const lockedPackages = new Map(installedPackages)
+    const lockedDependencies = new Map(dependencyTree)
+    const installLocations = await this.scanNodeModules(
+      packages,
+      installedPackages,
+      dependencyTree,
+      declaredRanges,
+      edgeTypes,
+    )
+    const drift = new DriftDetector({
+      packages,
+      lockFiles: lockFiles.map((lockFile) => lockFile.path),
+      lockedPackages,
+      lockedDependencies,
+      importers,
+      installLocations,
+    }).detect()
+    const overrides = this.analyzeOverrides(packages, lockFiles, dependencyTree, importers, declaredRanges)
+    const peerDependencies = new PeerDependencyResolver(installLocations).resolve()
+    const packageSources = this.classifySources(packages, installedPackages, importers)
+    const rangeViolations = findRangeViolations({
+      packages,
+      importers,
+      dependencyTree,
+      declaredRanges,
+      installLocations,
+    })
 
-    await this.analyzeLockFiles(installedPackages, dependencyTree)
-    await this.scanNodeModules(installedPackages, dependencyTree)
-    return {
+    const parsedData: ParsedData = {
       packages,
       workspaces,
+      unassignedPackages,
       installedPackages,
       dependencyTree,
+      declaredRanges,
+      edgeTypes,
+      importers,
+      installLocations,
+      drift,
+      overrides,
+      peerDependencies,
+      rangeViolations,
+      packageSources,
+    }
+
+    if (cacheKey) {
+      this.cache?.write('parsed-data', cacheKey, parsedData)
+    }
+
+    return parsedData
+  }
+
+  // Manifests, lockfiles and configs by content, node_modules by the mtimes package managers touch on install
+  private getCacheKey(packages: PackageInfo[], lockFiles: Array<{ path: string; type: LockFileType }>): string | null {
+    if (!this.cache) return null
+
+    const projectDirs = [this.rootPath, ...packages.map((pkg) => path.dirname(pkg.path))]
+    const contentHash = this.cache.hashFiles([
+      ...packages.map((pkg) => pkg.path),
+      ...lockFiles.map((lockFile) => lockFile.path),
+      ...Array.from(new Set(projectDirs)).flatMap((dir) => projectConfigFiles.map((file) => path.join(dir, file))),
+    ])
+
+    // Path filters decide what is scanned; limits and graph options only shape the graph built afterwards
+    const { manifests, lockfiles, nodeModules } = this.config
+    const filterHash = this.cache.hashValue({ manifests, lockfiles, nodeModules })
+    return `${contentHash}:${this.cache.getInstallStamp(projectDirs)}:${filterHash}`
+  }
+
+  // Manifest specifiers tell aliases, git and tarballs apart even when the lockfile records no source
+  private classifySources(
+    packages: PackageInfo[],
+    installedPackages: Map<string, InstalledPackage>,
+    importers: Map<string, ImporterDependency[]>,
+  ): Map<string, DependencySource> {
+    const classifier = new SourceClassifier(this.rootPath)
+    const specifiers = new Map<string, string>()
+
+    for (const pkg of packages) {
+      const importerDependencies = new Map(
+        (importers.get(path.dirname(pkg.path)) || []).map((dependency) => [dependency.name, dependency]),
+      )
+      const declared = { ...pkg.optionalDependencies, ...pkg.devDependencies, ...pkg.dependencies }
+
+      for (const [name, specifier] of Object.entries(declared)) {
+        const dependency = importerDependencies.get(name)
+        // pnpm keys an aliased dependency by the real package, which the alias specifier does not describe
+        if (dependency && !dependency.realName) {
+          specifiers.set(getPackageKey(name, dependency.version), specifier)
+        }
+      }
+    }
+
+    const packageSources = new Map<string, DependencySource>()
+    for (const [packageKey, installedInfo] of installedPackages.entries()) {
+      packageSources.set(
+        packageKey,
+        classifier.classify({
+          name: installedInfo.name,
+          resolved: installedInfo.resolved,
+          realName: installedInfo.realName,
+          specifier: specifiers.get(packageKey),
+        }),
+      )
+    }
+
+    // Dependencies the importers resolve but no lockfile entry installs
+    for (const [packageKey, specifier] of specifiers.entries()) {
+      if (!packageSources.has(packageKey)) {
+        packageSources.set(packageKey, classifier.classify({ name: parsePackageKey(packageKey).name, specifier }))
+      }
     }
+
+    return packageSources
+  }
+
+  // Package managers only honor overrides declared next to the lockfile, i.e. in the root manifest
+  private analyzeOverrides(
+    packages: PackageInfo[],
+    lockFiles: Array<{ path: string; type: LockFileType }>,
+    dependencyTree: Map<string, Set<string>>,
+    importers: Map<string, ImporterDependency[]>,
+    declaredRanges: Map<string, Map<string, string>>,
+  ): OverrideReport {
+    const rootDirs = new Set([path.resolve(this.rootPath), ...lockFiles.map((lockFile) => path.dirname(lockFile.path))])
+    const rules = packages
+      .filter((pkg) => rootDirs.has(path.resolve(path.dirname(pkg.path))))
+      .flatMap((pkg) => pkg.overrides || [])
+
+    return new OverrideAnalyzer(rules).analyze(packages, dependencyTree, importers, declaredRanges)
   }
 
   private async findPackages(): Promise<PackageInfo[]> {
-    const packageJsonFiles = await glob('**/package.json', {
-      cwd: this.rootPath,
-      ignore: ['**/node_modules/**', '**/.next/**', '**/dist/**', '**/build/**', '**/coverage/**'],
-    })
+    const packageJsonFiles = (
+      await glob(this.config.manifests.include, {
+        cwd: this.rootPath,
+        ignore: ['**/node_modules/**', ...this.config.manifests.exclude],
+      })
+    ).filter((file) => path.basename(file) === 'package.json')
 
     const packages: PackageInfo[] = []
 
@@ -51,6 +268,7 @@ export class DataParser {
           devDependencies: pkg.devDependencies || {},
           peerDependencies: pkg.peerDependencies || {},
           optionalDependencies: pkg.optionalDependencies || {},
+          overrides: parseOverrideRules(pkg, fullPath),
         })
       } catch (error) {
         console.warn(`⚠️ Parse error ${fullPath}:`, error)
@@ -60,86 +278,157 @@ export class DataParser {
     return packages
   }
 
-  private detectWorkspaces(packages: PackageInfo[]): WorkspaceInfo[] {
-    const workspaceMap = new Map<string, PackageInfo[]>()
+  private async analyzeLockFiles(
+    lockFiles: Array<{ path: string; type: LockFileType }>,
+    packages: PackageInfo[],
+    installedPackages: Map<string, InstalledPackage>,
+    dependencyTree: Map<string, Set<string>>,
+    importers: Map<string, ImporterDependency[]>,
+    declaredRanges: Map<string, Map<string, string>>,
+    edgeTypes: Map<string, Map<string, DependencyEdgeType>>,
+  ): Promise<void> {
+    for (const [index, lockFile] of lockFiles.entries()) {
+      await this.reportProgress({
+        phase: 'lockfiles',
+        message: `Parsing ${path.relative(this.rootPath, lockFile.path)}`,
+        current: index,
+        total: lockFiles.length,
+      })
 
-    for (const pkg of packages) {
-      const pkgDir = path.dirname(pkg.path)
-      const relativePath = path.relative(this.rootPath, pkgDir)
+      const lockFileData = await this.parseLockFile(lockFile, packages)
 
-      let workspaceKey = ''
-      if (relativePath === '') {
-        workspaceKey = 'root'
-      } else {
-        const pathParts = relativePath.split(path.sep)
-        if (pathParts.length === 1) {
-          workspaceKey = 'root'
-        } else {
-          workspaceKey = pathParts[0]
+      // Same merge the parsers do among themselves: first entry wins, edges, ranges, types and importers accumulate
+      for (const [packageKey, installedInfo] of lockFileData.installedPackages.entries()) {
+        if (!installedPackages.has(packageKey)) {
+          installedPackages.set(packageKey, installedInfo)
         }
       }
-
-      if (!workspaceMap.has(workspaceKey)) {
-        workspaceMap.set(workspaceKey, [])
+      for (const [packageKey, deps] of lockFileData.dependencyTree.entries()) {
+        dependencyTree.set(packageKey, new Set([...(dependencyTree.get(packageKey) || []), ...deps]))
+      }
+      for (const [packageKey, ranges] of lockFileData.declaredRanges.entries()) {
+        declaredRanges.set(packageKey, new Map([...(declaredRanges.get(packageKey) || []), ...ranges]))
+      }
+      for (const [packageKey, types] of lockFileData.edgeTypes.entries()) {
+        for (const [depKey, edgeType] of types.entries()) {
+          setEdgeType(edgeTypes, packageKey, depKey, edgeType)
+        }
+      }
+      for (const [importerDir, dependencies] of lockFileData.importers.entries()) {
+        importers.set(importerDir, [...(importers.get(importerDir) || []), ...dependencies])
       }
-      workspaceMap.get(workspaceKey)?.push(pkg)
     }
 
-    return Array.from(workspaceMap.entries()).map(([key, packages]) => ({
-      name: key === 'root' ? 'Root' : key.charAt(0).toUpperCase() + key.slice(1),
-      path: key === 'root' ? this.rootPath : path.join(this.rootPath, key),
-      packages: packages.map((p) => p.name),
-    }))
+    await this.reportProgress({
+      phase: 'lockfiles',
+      message: `Parsed ${lockFiles.length} lockfiles`,
+      current: lockFiles.length,
+      total: lockFiles.length,
+    })
   }
 
-  private async analyzeLockFiles(
-    installedPackages: Map<string, { version: string; size?: number }>,
-    dependencyTree: Map<string, Set<string>>,
-  ): Promise<void> {
-    const lockFiles = await this.findLockFiles()
+  private async parseLockFile(
+    lockFile: { path: string; type: LockFileType },
+    packages: PackageInfo[],
+  ): Promise<LockFileData> {
+    // Importers are read from the manifests next to and below the lockfile
+    const lockDir = path.dirname(lockFile.path)
+    const manifestPaths = packages
+      .map((pkg) => pkg.path)
+      .filter((manifestPath) => !path.relative(lockDir, manifestPath).startsWith('..'))
+    const cacheKey = this.cache?.hashFiles([lockFile.path, ...manifestPaths])
+    const cacheName = `lockfile:${lockFile.path}`
+
+    const cached = cacheKey ? this.cache?.read<LockFileData>(cacheName, cacheKey) : null
+    if (cached) return cached
+
+    const installedPackages = new Map<string, InstalledPackage>()
+    const dependencyTree = new Map<string, Set<string>>()
+    const importers = new Map<string, ImporterDependency[]>()
+    const declaredRanges = new Map<string, Map<string, string>>()
+    const edgeTypes = new Map<string, Map<string, DependencyEdgeType>>()
+
+    if (lockFile.type === 'yarn') {
+      await this.analyzeYarnLockWithLibrary(
+        lockFile.path,
+        packages,
+        installedPackages,
+        dependencyTree,
+        importers,
+        declaredRanges,
+        edgeTypes,
+      )
+    } else if (lockFile.type === 'yarn-berry') {
+      await this.analyzeYarnBerryLock(
+        lockFile.path,
+        installedPackages,
+        dependencyTree,
+        importers,
+        declaredRanges,
+        edgeTypes,
+      )
+    } else if (lockFile.type === 'npm') {
+      await this.analyzePackageLockWithArborist(
+        lockFile.path,
+        installedPackages,
+        dependencyTree,
+        importers,
+        declaredRanges,
+        edgeTypes,
+      )
+    } else if (lockFile.type === 'pnpm') {
+      await this.analyzePnpmLock(lockFile.path, installedPackages, dependencyTree, importers, declaredRanges, edgeTypes)
+    } else if (lockFile.type === 'bun') {
+      await this.analyzeBunLock(lockFile.path, installedPackages, dependencyTree, importers, declaredRanges, edgeTypes)
+    }
 
-    for (const lockFile of lockFiles) {
-      if (lockFile.type === 'yarn') {
-        await this.analyzeYarnLockWithLibrary(lockFile.path, installedPackages, dependencyTree)
-      } else if (lockFile.type === 'npm') {
-        await this.analyzePackageLockWithArborist(lockFile.path, installedPackages, dependencyTree)
-      }
+    const lockFileData: LockFileData = { installedPackages, dependencyTree, importers, declaredRanges, edgeTypes }
+    if (cacheKey) {
+      this.cache?.write(cacheName, cacheKey, lockFileData)
     }
+
+    return lockFileData
   }
 
-  private async findLockFiles(): Promise<Array<{ path: string; type: 'yarn' | 'npm' }>> {
-    const lockFiles: Array<{ path: string; type: 'yarn' | 'npm' }> = []
+  private async findLockFiles(): Promise<Array<{ path: string; type: LockFileType }>> {
+    const lockFiles: Array<{ path: string; type: LockFileType }> = []
 
-    const yarnLocks = await glob('**/yarn.lock', {
+    const lockFilePaths = await glob(this.config.lockfiles.include, {
       cwd: this.rootPath,
-      ignore: ['**/node_modules/**'],
+      ignore: ['**/node_modules/**', ...this.config.lockfiles.exclude],
     })
 
-    for (const yarnLock of yarnLocks) {
-      lockFiles.push({
-        path: path.join(this.rootPath, yarnLock),
-        type: 'yarn',
-      })
+    // Parsed in a fixed order, since the first lockfile to lock a package wins
+    for (const fileName of lockFileNames) {
+      for (const lockFile of lockFilePaths.filter((file) => path.basename(file) === fileName)) {
+        const lockFilePath = path.join(this.rootPath, lockFile)
+        lockFiles.push({
+          path: lockFilePath,
+          type: fileName === 'yarn.lock' ? this.detectYarnLockType(lockFilePath) : lockFileTypes[fileName],
+        })
+      }
     }
 
-    const npmLocks = await glob('**/package-lock.json', {
-      cwd: this.rootPath,
-      ignore: ['**/node_modules/**'],
-    })
+    return lockFiles
+  }
 
-    for (const npmLock of npmLocks) {
-      lockFiles.push({
-        path: path.join(this.rootPath, npmLock),
-        type: 'npm',
-      })
+  private detectYarnLockType(lockPath: string): 'yarn' | 'yarn-berry' {
+    try {
+      const content = fs.readFileSync(lockPath, 'utf8')
+      return YarnBerryLockParser.isBerryLockfile(content) ? 'yarn-berry' : 'yarn'
+    } catch (_error) {
+      return 'yarn'
     }
-    return lockFiles
   }
 
   private async analyzeYarnLockWithLibrary(
     lockPath: string,
-    installedPackages: Map<string, { version: string; size?: number }>,
+    packages: PackageInfo[],
+    installedPackages: Map<string, InstalledPackage>,
     dependencyTree: Map<string, Set<string>>,
+    importers: Map<string, ImporterDependency[]>,
+    declaredRanges: Map<string, Map<string, string>>,
+    edgeTypes: Map<string, Map<string, DependencyEdgeType>>,
   ): Promise<void> {
     try {
       const content = fs.readFileSync(lockPath, 'utf8')
@@ -149,83 +438,159 @@ export class DataParser {
         return
       }
 
-      for (const [key, packageInfo] of Object.entries(parsed.object)) {
+      // biome-ignore lint/suspicious/noExplicitAny: <json>
+      const entries = parsed.object as Record<string, any>
+
+      for (const [key, packageInfo] of Object.entries(entries)) {
         const packageName = this.extractPackageNameFromYarnKey(key)
         if (!packageName) continue
 
-        // biome-ignore lint/suspicious/noExplicitAny: <json>
-        const version = (packageInfo as any).version || '1.0.0'
-
-        if (!installedPackages.has(packageName)) {
-          installedPackages.set(packageName, { version })
+        const version = packageInfo.version || '1.0.0'
+        const packageKey = getPackageKey(packageName, version)
+
+        if (!installedPackages.has(packageKey)) {
+          // Aliases are keyed `alias@npm:real-name@range`
+          const aliasMatch = key.match(/@npm:((?:@[^/]+\/)?[^@]+)@/)
+          installedPackages.set(packageKey, {
+            name: packageName,
+            version,
+            resolved: packageInfo.resolved,
+            realName: aliasMatch && aliasMatch[1] !== packageName ? aliasMatch[1] : undefined,
+          })
         }
 
-        // biome-ignore lint/suspicious/noExplicitAny: <json>
-        const dependencies = (packageInfo as any).dependencies || {}
-        if (Object.keys(dependencies).length > 0) {
-          const deps = new Set<string>()
-          for (const depName of Object.keys(dependencies)) {
-            const cleanDepName = this.cleanPackageName(depName)
-            if (cleanDepName && cleanDepName !== packageName) {
-              deps.add(cleanDepName)
-            }
-          }
-
-          if (deps.size > 0) {
-            dependencyTree.set(packageName, deps)
-          }
+        // yarn.lock v1 records neither peers nor bundles
+        const allDeps: Record<string, string> = {
+          ...packageInfo.dependencies,
+          ...packageInfo.optionalDependencies,
         }
+        const types = getEdgeTypes(packageInfo)
 
-        // biome-ignore lint/suspicious/noExplicitAny: <json>
-        const optionalDependencies = (packageInfo as any).optionalDependencies || {}
-        if (Object.keys(optionalDependencies).length > 0) {
-          const existingDeps = dependencyTree.get(packageName) || new Set()
-          for (const depName of Object.keys(optionalDependencies)) {
+        if (Object.keys(allDeps).length > 0) {
+          const deps = dependencyTree.get(packageKey) || new Set<string>()
+          const ranges = declaredRanges.get(packageKey) || new Map<string, string>()
+          for (const [depName, range] of Object.entries(allDeps)) {
             const cleanDepName = this.cleanPackageName(depName)
-            if (cleanDepName && cleanDepName !== packageName) {
-              existingDeps.add(cleanDepName)
+            if (!cleanDepName) continue
+            ranges.set(cleanDepName, range)
+
+            // Every `name@range` descriptor has its own entry pointing at the resolved version
+            const depKey = getPackageKey(cleanDepName, entries[`${cleanDepName}@${range}`]?.version || range)
+            if (depKey !== packageKey) {
+              deps.add(depKey)
+              setEdgeType(edgeTypes, packageKey, depKey, types.get(depName))
             }
           }
-          dependencyTree.set(packageName, existingDeps)
+          dependencyTree.set(packageKey, deps)
+          declaredRanges.set(packageKey, ranges)
         }
       }
+
+      this.collectYarnImporters(lockPath, packages, entries, importers)
     } catch (error) {
       console.warn(`⚠️ Error yarn.lock ${lockPath}:`, error)
     }
   }
 
+  // yarn.lock has no importer section, so resolve each manifest covered by the lockfile against it
+  private collectYarnImporters(
+    lockPath: string,
+    packages: PackageInfo[],
+    // biome-ignore lint/suspicious/noExplicitAny: <json>
+    entries: Record<string, any>,
+    importers: Map<string, ImporterDependency[]>,
+  ): void {
+    const lockDir = path.dirname(lockPath)
+    const sections = [
+      { source: 'dependencies', type: 'dependency' },
+      { source: 'devDependencies', type: 'devDependency' },
+      { source: 'optionalDependencies', type: 'optionalDependency' },
+    ] as const
+
+    for (const pkg of packages) {
+      const pkgDir = path.dirname(pkg.path)
+      if (path.relative(lockDir, pkgDir).startsWith('..')) continue
+
+      const dependencies = importers.get(pkgDir) || []
+      for (const { source, type } of sections) {
+        for (const [name, range] of Object.entries(pkg[source])) {
+          const entry = entries[`${name}@${range}`]
+          if (entry?.version) {
+            dependencies.push({ name, version: entry.version, type })
+          }
+        }
+      }
+
+      if (dependencies.length > 0) {
+        importers.set(pkgDir, dependencies)
+      }
+    }
+  }
+
   private async analyzePackageLockWithArborist(
     lockPath: string,
-    installedPackages: Map<string, { version: string; size?: number }>,
+    installedPackages: Map<string, InstalledPackage>,
     dependencyTree: Map<string, Set<string>>,
+    importers: Map<string, ImporterDependency[]>,
+    declaredRanges: Map<string, Map<string, string>>,
+    edgeTypes: Map<string, Map<string, DependencyEdgeType>>,
   ): Promise<void> {
     try {
       const projectRoot = path.dirname(lockPath)
       const arb = new Arborist({ path: projectRoot })
 
-      const tree = await arb.loadActual()
+      // Read the lockfile itself; node_modules is scanned separately
+      const tree = await arb.loadVirtual()
 
       for (const node of tree.inventory.values()) {
-        if (!node.name || node.name === tree.name) continue // Skip the root package
+        // Local packages come from their manifests. Arborist names a workspace after its folder, which would
+        // record `packages/a` as a bogus `a@<version>` next to the real package
+        if (node.isProjectRoot || node.isWorkspace) {
+          this.collectArboristImporter(node, importers)
+          continue
+        }
 
-        const packageName = node.name
-        const version = node.version || '1.0.0'
+        if (!node.name) continue
 
-        if (!installedPackages.has(packageName)) {
-          installedPackages.set(packageName, { version })
+        // Folder names only match package names inside node_modules, e.g. not for `file:` targets
+        const packageName = node.inNodeModules() ? node.name : node.packageName || node.name
+        const version = node.version || '1.0.0'
+        const packageKey = getPackageKey(packageName, version)
+
+        if (!installedPackages.has(packageKey)) {
+          installedPackages.set(packageKey, {
+            name: packageName,
+            version,
+            resolved: node.resolved || undefined,
+            realName: node.packageName !== packageName ? node.packageName : undefined,
+          })
         }
 
         const deps = new Set<string>()
+        const ranges = declaredRanges.get(packageKey) || new Map<string, string>()
+        const manifestTypes = getEdgeTypes(node.package)
 
         // Direct
         for (const edge of node.edgesOut.values()) {
-          if (edge?.to?.name && edge.to.name !== packageName) {
-            deps.add(edge.to.name)
+          const edgeType =
+            manifestTypes.get(edge.name) === 'bundled' ? 'bundled' : this.getArboristDependencyEdgeType(edge.type)
+          ranges.set(edge.name, edge.spec)
+
+          const target = edge?.to?.isLink ? edge.to.target : edge?.to
+          if (target?.name) {
+            const depKey = getPackageKey(edge.to?.name || target.name, target.version || '1.0.0')
+            if (depKey !== packageKey) {
+              deps.add(depKey)
+              setEdgeType(edgeTypes, packageKey, depKey, edgeType)
+            }
           }
         }
 
         if (deps.size > 0) {
-          dependencyTree.set(packageName, deps)
+          dependencyTree.set(packageKey, deps)
+        }
+        if (ranges.size > 0) {
+          declaredRanges.set(packageKey, ranges)
         }
       }
     } catch (error) {
@@ -233,6 +598,97 @@ export class DataParser {
     }
   }
 
+  private collectArboristImporter(node: Arborist.Node, importers: Map<string, ImporterDependency[]>): void {
+    const dependencies = importers.get(node.path) || []
+
+    for (const edge of node.edgesOut.values()) {
+      if (!edge.to) continue
+
+      dependencies.push({
+        name: edge.name,
+        version: edge.to.isLink ? `link:${path.relative(node.path, edge.to.realpath)}` : edge.to.version,
+        type: this.getArboristEdgeType(edge.type),
+      })
+    }
+
+    if (dependencies.length > 0) {
+      importers.set(node.path, dependencies)
+    }
+  }
+
+  private getArboristEdgeType(type: string): LinkDatum['type'] {
+    switch (type) {
+      case 'dev':
+        return 'devDependency'
+      case 'optional':
+        return 'optionalDependency'
+      case 'peer':
+      case 'peerOptional':
+        return 'peerDependency'
+      default:
+        return 'dependency'
+    }
+  }
+
+  // Dev edges only leave workspaces, whose manifests the graph reads directly
+  private getArboristDependencyEdgeType(type: string): DependencyEdgeType {
+    switch (type) {
+      case 'optional':
+        return 'optional'
+      case 'peer':
+        return 'peer'
+      case 'peerOptional':
+        return 'peerOptional'
+      default:
+        return 'dependency'
+    }
+  }
+
+  private async analyzeYarnBerryLock(
+    lockPath: string,
+    installedPackages: Map<string, InstalledPackage>,
+    dependencyTree: Map<string, Set<string>>,
+    importers: Map<string, ImporterDependency[]>,
+    declaredRanges: Map<string, Map<string, string>>,
+    edgeTypes: Map<string, Map<string, DependencyEdgeType>>,
+  ): Promise<void> {
+    try {
+      new YarnBerryLockParser(lockPath).parse(installedPackages, dependencyTree, importers, declaredRanges, edgeTypes)
+    } catch (error) {
+      console.warn(`⚠️ Error yarn.lock ${lockPath}:`, error)
+    }
+  }
+
+  private async analyzePnpmLock(
+    lockPath: string,
+    installedPackages: Map<string, InstalledPackage>,
+    dependencyTree: Map<string, Set<string>>,
+    importers: Map<string, ImporterDependency[]>,
+    declaredRanges: Map<string, Map<string, string>>,
+    edgeTypes: Map<string, Map<string, DependencyEdgeType>>,
+  ): Promise<void> {
+    try {
+      new PnpmLockParser(lockPath).parse(installedPackages, dependencyTree, importers, declaredRanges, edgeTypes)
+    } catch (error) {
+      console.warn(`⚠️ Error pnpm-lock.yaml ${lockPath}:`, error)
+    }
+  }
+
+  private async analyzeBunLock(
+    lockPath: string,
+    installedPackages: Map<string, InstalledPackage>,
+    dependencyTree: Map<string, Set<string>>,
+    importers: Map<string, ImporterDependency[]>,
+    declaredRanges: Map<string, Map<string, string>>,
+    edgeTypes: Map<string, Map<string, DependencyEdgeType>>,
+  ): Promise<void> {
+    try {
+      new BunLockParser(lockPath).parse(installedPackages, dependencyTree, importers, declaredRanges, edgeTypes)
+    } catch (error) {
+      console.warn(`⚠️ Error bun.lock ${lockPath}:`, error)
+    }
+  }
+
   private extractPackageNameFromYarnKey(key: string): string | null {
     try {
       const cleaned = key.replace(/"/g, '')
@@ -258,115 +714,138 @@ export class DataParser {
   }
 
   private async scanNodeModules(
-    installedPackages: Map<string, { version: string; size?: number }>,
+    packages: PackageInfo[],
+    installedPackages: Map<string, InstalledPackage>,
     dependencyTree: Map<string, Set<string>>,
-  ): Promise<void> {
-    const nodeModulesPaths = await glob('**/node_modules', {
-      cwd: this.rootPath,
-      ignore: ['**/node_modules/**/node_modules/**'],
+    declaredRanges: Map<string, Map<string, string>>,
+    edgeTypes: Map<string, Map<string, DependencyEdgeType>>,
+  ): Promise<InstallLocation[]> {
+    await this.reportProgress({ phase: 'node-modules', message: 'Scanning node_modules' })
+    const projectDirs = [this.rootPath, ...packages.map((pkg) => path.dirname(pkg.path))]
+    const { include, exclude } = this.config.nodeModules
+    const installLocations = new InstallTreeScanner(projectDirs, (locationPath) => {
+      const relativePath = path.relative(this.rootPath, locationPath)
+      return (
+        include.some((pattern) => minimatch(relativePath, pattern, { dot: true })) &&
+        !exclude.some((pattern) => minimatch(relativePath, pattern, { dot: true }))
+      )
+    }).scan()
+
+    for (const [index, location] of installLocations.entries()) {
+      if (index % progressInterval === 0) {
+        await this.reportProgress({
+          phase: 'node-modules',
+          message: `Reading ${location.name}`,
+          current: index,
+          total: installLocations.length,
+        })
+      }
+      await this.processInstallLocation(location, installedPackages, dependencyTree, declaredRanges, edgeTypes)
+    }
+
+    await this.reportProgress({
+      phase: 'node-modules',
+      message: `Found ${installLocations.length} installed packages`,
+      current: installLocations.length,
+      total: installLocations.length,
     })
 
-    for (const nodeModulesPath of nodeModulesPaths) {
-      const fullNodeModulesPath = path.join(this.rootPath, nodeModulesPath)
-      await this.scanSingleNodeModules(fullNodeModulesPath, installedPackages, dependencyTree)
-    }
+    return installLocations
   }
 
-  private async scanSingleNodeModules(
-    nodeModulesPath: string,
-    installedPackages: Map<string, { version: string; size?: number }>,
-    dependencyTree: Map<string, Set<string>>,
-  ): Promise<void> {
-    try {
-      const packages = fs.readdirSync(nodeModulesPath, { withFileTypes: true })
-
-      for (const pkg of packages) {
-        if (pkg.isDirectory() && !pkg.name.startsWith('.')) {
-          if (pkg.name.startsWith('@')) {
-            // Scoped packages
-            await this.processScopedPackage(nodeModulesPath, pkg.name, installedPackages, dependencyTree)
-          } else {
-            // Regular packages
-            await this.processRegularPackage(nodeModulesPath, pkg.name, installedPackages, dependencyTree)
-          }
-        }
-      }
-    } catch (error) {
-      console.warn(`⚠️ Error node_modules ${nodeModulesPath}:`, error)
-    }
+  // Every report is also a cancellation point
+  private async reportProgress(progress: AnalysisProgress): Promise<void> {
+    this.options.signal?.throwIfAborted()
+    this.options.onProgress?.(progress)
+    // Let streamed events flush and cancellations arrive between synchronous stretches
+    await new Promise((resolve) => setImmediate(resolve))
   }
 
-  private async processScopedPackage(
-    nodeModulesPath: string,
-    scopeName: string,
-    installedPackages: Map<string, { version: string; size?: number }>,
+  private async processInstallLocation(
+    location: InstallLocation,
+    installedPackages: Map<string, InstalledPackage>,
     dependencyTree: Map<string, Set<string>>,
+    declaredRanges: Map<string, Map<string, string>>,
+    edgeTypes: Map<string, Map<string, DependencyEdgeType>>,
   ): Promise<void> {
-    const scopePath = path.join(nodeModulesPath, scopeName)
-    try {
-      const scopedPackages = fs.readdirSync(scopePath, { withFileTypes: true })
-      for (const scopedPkg of scopedPackages) {
-        if (scopedPkg.isDirectory()) {
-          const fullName = `${scopeName}/${scopedPkg.name}`
-          const packagePath = path.join(scopePath, scopedPkg.name)
-          await this.processPackageJson(fullName, packagePath, installedPackages, dependencyTree)
-        }
-      }
-    } catch (error) {
-      console.warn(`⚠️ Error scoped packages in ${scopePath}:`, error)
+    const { name: packageName, version, packageKey, realPath, realName } = location
+
+    const installedInfo = installedPackages.get(packageKey)
+    if (!installedInfo) {
+      installedPackages.set(packageKey, { name: packageName, version, realName })
+    } else if (realName && !installedInfo.realName) {
+      installedInfo.realName = realName
     }
-  }
 
-  private async processRegularPackage(
-    nodeModulesPath: string,
-    packageName: string,
-    installedPackages: Map<string, { version: string; size?: number }>,
-    dependencyTree: Map<string, Set<string>>,
-  ): Promise<void> {
-    const packagePath = path.join(nodeModulesPath, packageName)
-    await this.processPackageJson(packageName, packagePath, installedPackages, dependencyTree)
-  }
+    if (dependencyTree.has(packageKey) && declaredRanges.has(packageKey)) return
 
-  private async processPackageJson(
-    packageName: string,
-    packagePath: string,
-    installedPackages: Map<string, { version: string; size?: number }>,
-    dependencyTree: Map<string, Set<string>>,
-  ): Promise<void> {
     try {
-      const packageJsonPath = path.join(packagePath, 'package.json')
-
-      if (fs.existsSync(packageJsonPath)) {
-        const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8'))
-        const version = packageJson.version || '1.0.0'
+      const packageJson = JSON.parse(fs.readFileSync(path.join(realPath, 'package.json'), 'utf8'))
+      const allDeps: Record<string, string> = {
+        ...packageJson.dependencies,
+        ...packageJson.optionalDependencies,
+      }
+      // A package that also lists a peer among its dependencies gets the dependency's range
+      const rangesWithPeers: Record<string, string> = { ...packageJson.peerDependencies, ...allDeps }
 
-        if (!installedPackages.has(packageName)) {
-          installedPackages.set(packageName, { version })
-        }
+      if (Object.keys(rangesWithPeers).length > 0 && !declaredRanges.has(packageKey)) {
+        declaredRanges.set(packageKey, new Map(Object.entries(rangesWithPeers)))
+      }
 
-        if (!dependencyTree.has(packageName)) {
-          const allDeps = {
-            ...packageJson.dependencies,
-            ...packageJson.optionalDependencies,
+      const types = getEdgeTypes(packageJson)
+      if (types.size > 0 && !dependencyTree.has(packageKey)) {
+        const deps = new Set<string>()
+        Object.entries(rangesWithPeers).forEach(([depName, range]) => {
+          const cleanName = this.cleanPackageName(depName)
+          if (cleanName) {
+            // Node resolves from the real path, which is what makes pnpm's virtual store work
+            const installedVersion = this.resolveInstalledVersion(realPath, cleanName)
+            // A peer nobody installed is not an edge, the peer report covers it
+            if (!installedVersion && isPeerEdgeType(types.get(depName))) return
+
+            const depKey = getPackageKey(cleanName, installedVersion || String(range))
+            deps.add(depKey)
+            setEdgeType(edgeTypes, packageKey, depKey, types.get(depName))
           }
+        })
 
-          if (Object.keys(allDeps).length > 0) {
-            const deps = new Set<string>()
-            Object.keys(allDeps).forEach((depName) => {
-              const cleanName = this.cleanPackageName(depName)
-              if (cleanName) {
-                deps.add(cleanName)
-              }
-            })
-
-            if (deps.size > 0) {
-              dependencyTree.set(packageName, deps)
-            }
-          }
+        if (deps.size > 0) {
+          dependencyTree.set(packageKey, deps)
         }
       }
     } catch (error) {
       console.warn(`⚠️ Error parse ${packageName}:`, error)
     }
   }
+
+  // Follows node resolution: the closest node_modules above the dependent wins
+  private resolveInstalledVersion(fromPath: string, depName: string): string | null {
+    let currentDir = fromPath
+
+    while (!path.relative(this.rootPath, currentDir).startsWith('..')) {
+      const manifestPath = path.join(currentDir, 'node_modules', depName, 'package.json')
+      const cached = this.installedVersionCache.get(manifestPath)
+      if (cached !== undefined) {
+        if (cached) return cached
+      } else {
+        const version = this.readManifestVersion(manifestPath)
+        this.installedVersionCache.set(manifestPath, version)
+        if (version) return version
+      }
+
+      const parentDir = path.dirname(currentDir)
+      if (parentDir === currentDir) break
+      currentDir = parentDir
+    }
+
+    return null
+  }
+
+  private readManifestVersion(manifestPath: string): string | null {
+    try {
+      return JSON.parse(fs.readFileSync(manifestPath, 'utf8')).version || null
+    } catch (_error) {
+      return null
+    }
+  }
 }
@@ -0,0 +1,71 @@
+import type { DependencyEdgeType, LinkDatum } from '@/types'
+
+// The manifest fields that decide an edge type; lockfiles copy most of them from the package's package.json.
+// Only the names matter, so the ranges are left untyped
+export interface EdgeTypeFields {
+  dependencies?: Record<string, unknown>
+  optionalDependencies?: Record<string, unknown>
+  // Yarn Berry lists optional dependencies under `dependencies` and flags them here
+  dependenciesMeta?: Record<string, { optional?: boolean } | undefined>
+  peerDependencies?: Record<string, unknown>
+  peerDependenciesMeta?: Record<string, { optional?: boolean } | undefined>
+  // `true` bundles every dependency
+  bundleDependencies?: string[] | boolean
+  bundledDependencies?: string[] | boolean
+}
+
+// Bundling wins over a peer and a peer over a regular dependency of the same name, like npm does.
+// pnpm lists resolved peers among the dependencies, which this order reads correctly as well
+export function getEdgeTypes(fields: EdgeTypeFields | null | undefined): Map<string, DependencyEdgeType> {
+  const edgeTypes = new Map<string, DependencyEdgeType>()
+  if (!fields) return edgeTypes
+
+  for (const name of Object.keys(fields.dependencies || {})) {
+    edgeTypes.set(name, fields.dependenciesMeta?.[name]?.optional ? 'optional' : 'dependency')
+  }
+  for (const name of Object.keys(fields.optionalDependencies || {})) {
+    edgeTypes.set(name, 'optional')
+  }
+  for (const name of Object.keys(fields.peerDependencies || {})) {
+    edgeTypes.set(name, fields.peerDependenciesMeta?.[name]?.optional ? 'peerOptional' : 'peer')
+  }
+
+  const bundled = fields.bundleDependencies ?? fields.bundledDependencies
+  const bundledNames = bundled === true ? Object.keys(fields.dependencies || {}) : Array.isArray(bundled) ? bundled : []
+  for (const name of bundledNames) {
+    edgeTypes.set(name, 'bundled')
+  }
+
+  return edgeTypes
+}
+
+// Plain dependencies are not stored, which keeps the map small: most edges are plain
+export function setEdgeType(
+  edgeTypes: Map<string, Map<string, DependencyEdgeType>> | undefined,
+  packageKey: string,
+  depKey: string,
+  edgeType: DependencyEdgeType | undefined,
+): void {
+  if (!edgeTypes || !edgeType || edgeType === 'dependency') return
+
+  const types = edgeTypes.get(packageKey) || new Map<string, DependencyEdgeType>()
+  if (!types.has(depKey)) types.set(depKey, edgeType)
+  edgeTypes.set(packageKey, types)
+}
+
+export function isPeerEdgeType(edgeType: DependencyEdgeType | undefined): boolean {
+  return edgeType === 'peer' || edgeType === 'peerOptional'
+}
+
+// Links use the manifest section names; optional peers are peers and bundled packages are dependencies
+export function toLinkType(edgeType: DependencyEdgeType | undefined): LinkDatum['type'] {
+  switch (edgeType) {
+    case 'optional':
+      return 'optionalDependency'
+    case 'peer':
+    case 'peerOptional':
+      return 'peerDependency'
+    default:
+      return 'dependency'
+  }
+}
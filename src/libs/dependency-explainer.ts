@@ -0,0 +1,84 @@
+import { parsePackageKey } from '@/libs/utils'
+import type { DependencyEdge, DependencyExplanation, ExplanationHop } from '@/types'
+
+// Walks dependents backwards from a package to the local packages that pull it in, like `npm explain`
+export class DependencyExplainer {
+  private readonly dependents = new Map<string, Array<{ sourceKey: string; edge: DependencyEdge }>>()
+  private readonly localKeys: Set<string>
+  private readonly maxChains: number
+  // Packages some local package depends on, directly or not; anything else leads nowhere
+  private readonly reachable: Set<string>
+
+  constructor(options: { dependencies: Map<string, DependencyEdge[]>; localKeys: Set<string>; maxChains: number }) {
+    this.localKeys = options.localKeys
+    this.maxChains = options.maxChains
+
+    for (const [sourceKey, edges] of options.dependencies.entries()) {
+      for (const edge of edges) {
+        const dependents = this.dependents.get(edge.depKey) || []
+        dependents.push({ sourceKey, edge })
+        this.dependents.set(edge.depKey, dependents)
+      }
+    }
+
+    this.reachable = this.findReachable(options.dependencies)
+  }
+
+  explain(name: string, version?: string): DependencyExplanation {
+    const packageKeys = Array.from(this.reachable)
+      .filter((packageKey) => {
+        const parsed = parsePackageKey(packageKey)
+        return parsed.name === name && (!version || parsed.version === version)
+      })
+      .sort()
+
+    const chains: ExplanationHop[][] = []
+    let truncated = false
+
+    // Hops are collected from the package upwards and reversed once a local package is reached
+    const visit = (packageKey: string, hops: ExplanationHop[], onPath: Set<string>) => {
+      if (hops.length > 0 && this.localKeys.has(packageKey)) {
+        chains.push([...hops].reverse())
+        return
+      }
+
+      for (const { sourceKey, edge } of this.dependents.get(packageKey) || []) {
+        if (onPath.has(sourceKey) || !this.reachable.has(sourceKey)) continue
+        if (chains.length >= this.maxChains) {
+          truncated = true
+          return
+        }
+
+        onPath.add(sourceKey)
+        hops.push({ from: sourceKey, to: packageKey, type: edge.type, range: edge.range })
+        visit(sourceKey, hops, onPath)
+        hops.pop()
+        onPath.delete(sourceKey)
+      }
+    }
+
+    for (const packageKey of packageKeys) {
+      visit(packageKey, [], new Set([packageKey]))
+    }
+
+    chains.sort((a, b) => a.length - b.length || a[0].from.localeCompare(b[0].from))
+
+    return { name, version, packageKeys, chains, truncated }
+  }
+
+  private findReachable(dependencies: Map<string, DependencyEdge[]>): Set<string> {
+    const reachable = new Set(this.localKeys)
+    const queue = Array.from(this.localKeys)
+
+    for (let index = 0; index < queue.length; index++) {
+      for (const { depKey } of dependencies.get(queue[index]) || []) {
+        if (!reachable.has(depKey)) {
+          reachable.add(depKey)
+          queue.push(depKey)
+        }
+      }
+    }
+
+    return reachable
+  }
+}
@@ -0,0 +1,40 @@
+import type { DepegraphConfig, DependencyEdge } from '@/types'
+
+export class DependencyScope {
+  private readonly dependencies: Map<string, DependencyEdge[]>
+  private readonly localKeys: Set<string>
+
+  constructor(options: { dependencies: Map<string, DependencyEdge[]>; localKeys: Set<string> }) {
+    this.dependencies = options.dependencies
+    this.localKeys = options.localKeys
+  }
+
+  // Local packages belong to every scope: each one is a root that may ship on its own.
+  // Only manifests declare devDependencies, so below the local packages every edge is a production edge
+  getPackageKeys(scope: Exclude<DepegraphConfig['dependencyScope'], 'all'>): Set<string> {
+    const production = this.reach((edge) => edge.type !== 'devDependency')
+    if (scope === 'production') return production
+
+    return new Set(
+      Array.from(this.reach(() => true)).filter(
+        (packageKey) => this.localKeys.has(packageKey) || !production.has(packageKey),
+      ),
+    )
+  }
+
+  private reach(follows: (edge: DependencyEdge) => boolean): Set<string> {
+    const reached = new Set(this.localKeys)
+    const queue = Array.from(this.localKeys)
+
+    for (let index = 0; index < queue.length; index++) {
+      for (const edge of this.dependencies.get(queue[index]) || []) {
+        if (!follows(edge) || reached.has(edge.depKey)) continue
+
+        reached.add(edge.depKey)
+        queue.push(edge.depKey)
+      }
+    }
+
+    return reached
+  }
+}
@@ -0,0 +1,73 @@
+import { validRange } from 'semver'
+import type { DependencySpecifier } from '@/types'
+
+const localProtocols = ['link:', 'file:', 'portal:'] as const
+
+// Tarballs referenced with `file:` are installed like registry packages, not linked
+const tarballPattern = /\.(tgz|tar\.gz|tar)$/i
+
+const gitPattern = /^(git\+[a-z]+:|git:\/\/|github:|gitlab:|bitbucket:|gist:)/i
+
+// GitHub shorthand: `user/repo` or `user/repo#ref`
+const githubShorthandPattern = /^[\w-][\w.-]*\/[\w.-]+(#.+)?$/
+
+export function parseDependencySpecifier(specifier: string): DependencySpecifier {
+  const raw = specifier.trim()
+
+  if (raw.startsWith('workspace:')) {
+    const range = raw.substring('workspace:'.length)
+    // pnpm allows aliasing another workspace package: `workspace:other-name@*`
+    const aliasMatch = range.match(/^((?:@[^/]+\/)?[^@/]+)@(.*)$/)
+    if (aliasMatch) {
+      return { protocol: 'workspace', raw, range: aliasMatch[2] || '*', name: aliasMatch[1] }
+    }
+    // Yarn accepts a path to the workspace instead of a range
+    if (isPathLike(range)) {
+      return { protocol: 'workspace', raw, range: '*', path: range }
+    }
+    return { protocol: 'workspace', raw, range: range || '*' }
+  }
+
+  for (const protocol of localProtocols) {
+    if (raw.startsWith(protocol)) {
+      const target = raw.substring(protocol.length)
+      if (protocol === 'file:' && tarballPattern.test(target)) {
+        return { protocol: 'tarball', raw, range: '*', path: target }
+      }
+      return { protocol: protocol.slice(0, -1) as DependencySpecifier['protocol'], raw, range: '*', path: target }
+    }
+  }
+
+  // `npm:real-name@^1.0.0` installs another package under the dependency name, while Yarn Berry writes plain
+  // registry ranges as `npm:^1.0.0`
+  if (raw.startsWith('npm:')) {
+    const target = raw.substring('npm:'.length)
+    if (validRange(target)) {
+      return { protocol: 'npm', raw, range: target }
+    }
+    const atIndex = target.indexOf('@', 1)
+    if (atIndex < 0) {
+      return { protocol: 'alias', raw, range: '*', name: target }
+    }
+    return { protocol: 'alias', raw, range: target.substring(atIndex + 1) || '*', name: target.substring(0, atIndex) }
+  }
+
+  if (gitPattern.test(raw) || /^https?:\/\/.+\.git(#.*)?$/.test(raw) || githubShorthandPattern.test(raw)) {
+    return { protocol: 'git', raw, range: '*' }
+  }
+
+  if (/^https?:\/\//.test(raw)) {
+    return { protocol: 'tarball', raw, range: '*' }
+  }
+
+  return { protocol: 'npm', raw, range: raw }
+}
+
+// Specifiers that point into the repository instead of at something to download
+export function isLocalSpecifier(specifier: DependencySpecifier): boolean {
+  return ['workspace', 'link', 'file', 'portal'].includes(specifier.protocol)
+}
+
+function isPathLike(value: string): boolean {
+  return value.startsWith('.') || value.startsWith('/') || value.includes('/')
+}
@@ -0,0 +1,114 @@
+import { parsePackageKey } from '@/libs/utils'
+import type { DependencyEdge, DependentsReport } from '@/types'
+
+export class DependentsAnalyzer {
+  private readonly dependencies: Map<string, DependencyEdge[]>
+  private readonly dependents = new Map<string, Array<{ sourceKey: string; edge: DependencyEdge }>>()
+  private readonly localKeys: Set<string>
+  private readonly getWorkspace: (packageKey: string) => string
+
+  constructor(options: {
+    dependencies: Map<string, DependencyEdge[]>
+    localKeys: Set<string>
+    // Installed or locked packages; a dependent that is neither one of them nor local is silently dropped
+    installedKeys: Set<string>
+    getWorkspace: (packageKey: string) => string
+  }) {
+    this.dependencies = options.dependencies
+    this.localKeys = options.localKeys
+    this.getWorkspace = options.getWorkspace
+
+    for (const [sourceKey, edges] of options.dependencies.entries()) {
+      if (!this.localKeys.has(sourceKey) && !options.installedKeys.has(sourceKey)) {
+        continue
+      }
+
+      for (const edge of edges) {
+        const dependents = this.dependents.get(edge.depKey) || []
+        dependents.push({ sourceKey, edge })
+        this.dependents.set(edge.depKey, dependents)
+      }
+    }
+  }
+
+  // `name` matches every installed version, `name@version` only that one
+  findPackageKeys(focusPackage: string): string[] {
+    const versionIndex = focusPackage.lastIndexOf('@')
+    const name = versionIndex > 0 ? focusPackage.slice(0, versionIndex) : focusPackage
+    const version = versionIndex > 0 ? focusPackage.slice(versionIndex + 1) : undefined
+
+    const packageKeys = new Set<string>([...this.dependencies.keys(), ...this.dependents.keys()])
+    return Array.from(packageKeys)
+      .filter((packageKey) => {
+        const parsed = parsePackageKey(packageKey)
+        return parsed.name === name && (!version || parsed.version === version)
+      })
+      .sort()
+  }
+
+  getDependents(packageKey: string): Array<{ sourceKey: string; edge: DependencyEdge }> {
+    return this.dependents.get(packageKey) || []
+  }
+
+  buildReport(packageKeys: string[]): DependentsReport {
+    const focusKeys = new Set(packageKeys)
+    const direct = new Set<string>()
+    const transitive = new Set<string>()
+    const queue = [...packageKeys]
+
+    for (let index = 0; index < queue.length; index++) {
+      for (const { sourceKey } of this.getDependents(queue[index])) {
+        if (focusKeys.has(sourceKey)) continue
+        if (focusKeys.has(queue[index])) direct.add(sourceKey)
+        if (transitive.has(sourceKey)) continue
+
+        transitive.add(sourceKey)
+        queue.push(sourceKey)
+      }
+    }
+
+    const localsByWorkspace = new Map<string, string[]>()
+    for (const packageKey of transitive) {
+      if (!this.localKeys.has(packageKey)) continue
+
+      const workspace = this.getWorkspace(packageKey)
+      localsByWorkspace.set(workspace, [...(localsByWorkspace.get(workspace) || []), packageKey])
+    }
+
+    const workspaces = Array.from(localsByWorkspace.entries())
+      .map(([workspace, locals]) => {
+        const reached = this.reachWithin(locals, transitive)
+        return {
+          workspace,
+          packages: locals.sort(),
+          directDependents: Array.from(reached).filter((packageKey) => direct.has(packageKey)).length,
+          transitiveDependents: reached.size,
+        }
+      })
+      .sort((a, b) => b.transitiveDependents - a.transitiveDependents || a.workspace.localeCompare(b.workspace))
+
+    return {
+      packageKeys,
+      directDependents: direct.size,
+      transitiveDependents: transitive.size,
+      workspaces,
+    }
+  }
+
+  // Dependents that lie on some chain from the workspace's packages to the focused package
+  private reachWithin(startKeys: string[], dependents: Set<string>): Set<string> {
+    const reached = new Set(startKeys)
+    const queue = [...startKeys]
+
+    for (let index = 0; index < queue.length; index++) {
+      for (const { depKey } of this.dependencies.get(queue[index]) || []) {
+        if (dependents.has(depKey) && !reached.has(depKey)) {
+          reached.add(depKey)
+          queue.push(depKey)
+        }
+      }
+    }
+
+    return reached
+  }
+}
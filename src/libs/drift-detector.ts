@@ -0,0 +1,177 @@
+import * as path from 'node:path'
+import { isLocalSpecifier, parseDependencySpecifier } from '@/libs/dependency-specifier'
+import { getPackageKey } from '@/libs/utils'
+import type {
+  DriftIssue,
+  DriftReport,
+  ImporterDependency,
+  InstalledPackage,
+  InstallLocation,
+  PackageInfo,
+} from '@/types'
+
+const manifestSections = ['dependencies', 'devDependencies', 'optionalDependencies'] as const
+
+export class DriftDetector {
+  private readonly packages: PackageInfo[]
+  private readonly lockFiles: string[]
+  private readonly lockedPackages: Map<string, InstalledPackage>
+  private readonly lockedDependencies: Map<string, Set<string>>
+  private readonly importers: Map<string, ImporterDependency[]>
+  private readonly installLocations: InstallLocation[]
+  private readonly localNames: Set<string>
+  private readonly lockedVersionsByName = new Map<string, Set<string>>()
+
+  constructor(options: {
+    packages: PackageInfo[]
+    lockFiles: string[]
+    // Lockfile view only, captured before node_modules is merged in
+    lockedPackages: Map<string, InstalledPackage>
+    lockedDependencies: Map<string, Set<string>>
+    importers: Map<string, ImporterDependency[]>
+    installLocations: InstallLocation[]
+  }) {
+    this.packages = options.packages
+    this.lockFiles = options.lockFiles
+    this.lockedPackages = options.lockedPackages
+    this.lockedDependencies = options.lockedDependencies
+    this.importers = options.importers
+    this.installLocations = options.installLocations
+    this.localNames = new Set(options.packages.map((pkg) => pkg.name))
+
+    for (const { name, version } of this.lockedPackages.values()) {
+      const versions = this.lockedVersionsByName.get(name) || new Set<string>()
+      versions.add(version)
+      this.lockedVersionsByName.set(name, versions)
+    }
+  }
+
+  detect(): DriftReport {
+    // Without a lockfile there is nothing to compare against
+    if (this.lockFiles.length === 0) {
+      return { lockFiles: [], issues: [] }
+    }
+
+    return {
+      lockFiles: this.lockFiles,
+      issues: [...this.findMissingFromLockfile(), ...this.findUnusedLockEntries(), ...this.findInstallDrift()],
+    }
+  }
+
+  private findMissingFromLockfile(): DriftIssue[] {
+    const issues: DriftIssue[] = []
+    const lockDirs = this.lockFiles.map((lockFile) => path.dirname(lockFile))
+
+    for (const pkg of this.packages) {
+      const pkgDir = path.dirname(pkg.path)
+      const isCovered = lockDirs.some((lockDir) => !path.relative(lockDir, pkgDir).startsWith('..'))
+      if (!isCovered) continue
+
+      const lockedNames = new Set((this.importers.get(pkgDir) || []).map((dependency) => dependency.name))
+
+      for (const section of manifestSections) {
+        for (const [name, specifier] of Object.entries(pkg[section])) {
+          // Local packages are linked rather than locked, and some lockfiles leave them out
+          if (isLocalSpecifier(parseDependencySpecifier(specifier)) || this.localNames.has(name)) continue
+          if (lockedNames.has(name)) continue
+
+          issues.push({
+            kind: 'missing-from-lockfile',
+            name,
+            packageKey: getPackageKey(pkg.name, pkg.version),
+            manifestPath: pkg.path,
+            specifier,
+          })
+        }
+      }
+    }
+
+    return issues
+  }
+
+  private findUnusedLockEntries(): DriftIssue[] {
+    // Without importer data every entry would look unused
+    if (this.importers.size === 0) return []
+
+    const reachable = new Set<string>()
+    const queue: string[] = []
+
+    for (const dependencies of this.importers.values()) {
+      for (const { name, version, realName } of dependencies) {
+        if (version.startsWith('link:') || version.startsWith('file:')) continue
+        queue.push(getPackageKey(realName || name, version))
+      }
+    }
+
+    while (queue.length > 0) {
+      const packageKey = queue.pop() as string
+      if (reachable.has(packageKey)) continue
+      reachable.add(packageKey)
+
+      for (const depKey of this.lockedDependencies.get(packageKey) || []) {
+        if (!reachable.has(depKey)) {
+          queue.push(depKey)
+        }
+      }
+    }
+
+    const issues: DriftIssue[] = []
+    for (const [packageKey, { name, version }] of this.lockedPackages.entries()) {
+      if (reachable.has(packageKey) || this.localNames.has(name)) continue
+
+      issues.push({ kind: 'unused-lock-entry', name, packageKey, lockedVersion: version })
+    }
+
+    return issues
+  }
+
+  private findInstallDrift(): DriftIssue[] {
+    const issues: DriftIssue[] = []
+    const projectDirs = new Set(this.packages.map((pkg) => path.resolve(path.dirname(pkg.path))))
+
+    for (const location of this.installLocations) {
+      // Workspace packages linked into node_modules are not lockfile entries
+      if (this.localNames.has(location.name) || projectDirs.has(location.realPath)) continue
+
+      const lockedVersions = this.lockedVersionsByName.get(location.name)
+      if (!lockedVersions) {
+        issues.push({
+          kind: 'not-in-lockfile',
+          name: location.name,
+          packageKey: location.packageKey,
+          installedVersion: location.version,
+          installPath: location.path,
+        })
+        continue
+      }
+
+      const expectedVersion = this.getExpectedVersion(location)
+      const isLocked = expectedVersion ? expectedVersion === location.version : lockedVersions.has(location.version)
+      if (isLocked) continue
+
+      issues.push({
+        kind: 'version-mismatch',
+        name: location.name,
+        packageKey: location.packageKey,
+        lockedVersion: expectedVersion || Array.from(lockedVersions).join(', '),
+        installedVersion: location.version,
+        installPath: location.path,
+      })
+    }
+
+    return issues
+  }
+
+  // A project's own node_modules must hold exactly the version its importer locked
+  private getExpectedVersion(location: InstallLocation): string | null {
+    if (!location.isHoisted) return null
+
+    const projectDir = path.join(location.path, ...location.name.split('/').map(() => '..'), '..')
+    const dependency = (this.importers.get(projectDir) || []).find(({ name }) => name === location.name)
+    if (!dependency || dependency.version.startsWith('link:') || dependency.version.startsWith('file:')) {
+      return null
+    }
+
+    return dependency.version
+  }
+}
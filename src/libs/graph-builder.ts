@@ -1,57 +1,417 @@
-import { formatSize, getSourceAndTarget } from '@/libs/utils'
-import type { DependencyGraph, LinkDatum, NodeDatum, PackageInfo, PackageStats, ParsedData } from '@/types'
+import * as path from 'node:path'
+import { maxSatisfying, validRange } from 'semver'
+import { parseDependencySpecifier } from '@/libs/dependency-specifier'
+import { formatSize, getPackageKey, getSourceAndTarget, parsePackageKey } from '@/libs/utils'
+import type {
+  AnalysisOptions,
+  AnalysisProgress,
+  DepegraphConfig,
+  DependencyCycle,
+  DependencyEdge,
+  DependencyExplanation,
+  DependencyGraph,
+  DependentsReport,
+  DriftIssue,
+  ExpandTarget,
+  LinkDatum,
+  NodeDatum,
+  PackageInfo,
+  PackageMetrics,
+  PackageStats,
+  ParsedData,
+  PeerDependencyIssue,
+  ProjectStats,
+} from '@/types'
+import { AnalysisCache } from './analysis-cache'
+import { CentralityAnalyzer } from './centrality-analyzer'
+import { defaultConfig, loadConfig } from './config-loader'
+import { CycleDetector } from './cycle-detector'
 import { DataParser } from './data-parser'
+import { toLinkType } from './dependency-edge-types'
+import { DependencyExplainer } from './dependency-explainer'
+import { DependencyScope } from './dependency-scope'
+import { DependentsAnalyzer } from './dependents-analyzer'
+import { OverrideAnalyzer } from './override-analyzer'
+import { satisfiesRange } from './range-checker'
+import { RetainedSizeAnalyzer } from './retained-size-analyzer'
 import { StatsCalculator } from './stats-calculator'
 
-const maxNodesPerTree = 100000
-const maxDepth = 3
-const maxDependenciesPerNode = 500
-const maxPerNode = 100
+// Parsed and indexed project of a full analysis, everything an expansion needs besides the graph options
+interface PreparedProject {
+  parsedData: ParsedData
+  scopeKeys: Set<string> | null
+  packageKeysByName: Map<string, string[]>
+  packageStats: Map<string, PackageStats> | null
+  installStates: Map<string, { state: NonNullable<NodeDatum['installState']>; nestedUnder: string[] }>
+  driftByKey: Map<string, DriftIssue[]>
+  overrideAnalyzer: OverrideAnalyzer
+  peerIssuesByKey: Map<string, PeerDependencyIssue[]>
+  cycles: DependencyCycle[]
+}
+
+// Projects of the latest analyses in this process. Expanding a node reuses the one the client shows, so it neither
+// parses the project again nor sees an install that changed since. Next bundles each API route apart, so the map
+// lives on the process instead of in this module
+const processState = globalThis as typeof globalThis & { depegraphPreparedProjects?: Map<string, PreparedProject> }
+processState.depegraphPreparedProjects ??= new Map()
+const preparedProjects = processState.depegraphPreparedProjects
+const maxPreparedProjects = 4
 
 export class GraphBuilder {
   private readonly rootPath: string
+  private readonly options: AnalysisOptions
+  private config: DepegraphConfig = defaultConfig
   private parsedData: ParsedData = {
     packages: [],
     workspaces: [],
+    unassignedPackages: [],
     installedPackages: new Map(),
     dependencyTree: new Map(),
+    declaredRanges: new Map(),
+    edgeTypes: new Map(),
+    importers: new Map(),
+    installLocations: [],
+    drift: { lockFiles: [], issues: [] },
+    overrides: { rules: [], unmatched: [], conflicts: [] },
+    peerDependencies: { resolutions: [], issues: [] },
+    rangeViolations: [],
+    packageSources: new Map(),
   }
   private packageStats: Map<string, PackageStats> | null = null
+  private projectStats: ProjectStats | null = null
+  private packageKeysByName = new Map<string, string[]>()
+  private driftByKey = new Map<string, DriftIssue[]>()
+  private overrideAnalyzer = new OverrideAnalyzer([])
+  private peerIssuesByKey = new Map<string, PeerDependencyIssue[]>()
+  private installStates = new Map<string, { state: NonNullable<NodeDatum['installState']>; nestedUnder: string[] }>()
+  private cycles: DependencyCycle[] = []
+  // Only built for a full analysis: expansions leave the graph-wide sizes and metrics to the analysis the client holds
+  private retainedSizeAnalyzer: RetainedSizeAnalyzer | null = null
+  private centralityAnalyzer: CentralityAnalyzer | null = null
+  // Tree mode: node id of each local package's root, which dependencies on it link to
+  private rootIds = new Map<string, string>()
+  // Packages in the configured dependency scope, null for `all`
+  private scopeKeys: Set<string> | null = null
 
-  constructor(rootPath: string) {
+  constructor(rootPath: string, options: AnalysisOptions = {}) {
     this.rootPath = rootPath
+    this.options = options
   }
 
   async buildGraph(): Promise<DependencyGraph> {
-    const parser = new DataParser(this.rootPath)
-    this.parsedData = await parser.parseProject()
-
-    const statsCalculator = new StatsCalculator(this.rootPath, this.parsedData)
-    const { packageStats } = await statsCalculator.calculateStats()
-    this.packageStats = packageStats
+    await this.prepareGraph()
 
-    const { nodes, links } = this.buildTreeStructure()
+    const { nodes, links, dependents, omittedRoots } = this.buildStructure()
+    this.markCycleLinks(nodes, links, this.cycles)
 
     this.calculateNodeMetrics(nodes, links)
 
     const duplicatedPackages = this.calculateDuplication(nodes)
+    await this.reportProgress({
+      phase: 'graph',
+      message: `Built ${nodes.length} nodes and ${links.length} links`,
+      current: 1,
+      total: 1,
+    })
 
     return {
       nodes,
       links,
       packages: this.parsedData.packages,
       workspaces: this.parsedData.workspaces,
+      unassignedPackages: this.parsedData.unassignedPackages,
+      drift: this.parsedData.drift,
+      overrides: this.parsedData.overrides,
+      peerDependencies: this.parsedData.peerDependencies,
+      rangeViolations: this.parsedData.rangeViolations,
+      cycles: this.cycles,
+      dependents,
+      retainedSizes: this.retainedSizeAnalyzer?.buildReport() || { workspaces: [] },
+      packageMetrics: (this.centralityAnalyzer?.getPackageKeys() || []).map((packageKey) => ({
+        packageKey,
+        exclusiveSize: this.retainedSizeAnalyzer?.getExclusiveSize(packageKey) || 0,
+        ...this.getPackageMetrics(packageKey),
+      })),
+      config: this.config,
+      packageSources: Array.from(this.parsedData.packageSources.entries()).map(([packageKey, source]) => ({
+        packageKey,
+        ...source,
+      })),
       stats: {
         totalNodes: nodes.length,
         totalLinks: links.length,
         maxLevel: nodes.length > 0 ? Math.max(...nodes.map((n) => n.dependencyLevel)) : 0,
         levelDistribution: this.calculateLevelDistribution(nodes),
         duplicatedPackages,
+        omittedRoots: omittedRoots || 0,
+        totalPackages: this.projectStats?.totalPackages || 0,
+        totalSize: this.projectStats?.totalSize || 0,
+        formattedTotalSize: this.projectStats?.formattedTotalSize || formatSize(0),
       },
     }
   }
 
-  private buildTreeStructure(): { nodes: NodeDatum[]; links: LinkDatum[] } {
+  // Every chain from a local package to `name` (at `version` when given), with the edge type and range of each hop
+  async explain(name: string, version?: string, maxChains = 1000): Promise<DependencyExplanation> {
+    await this.loadProject()
+    await this.reportProgress({ phase: 'graph', message: `Tracing ${version ? `${name}@${version}` : name}` })
+
+    return new DependencyExplainer({
+      dependencies: this.collectDependencyEdges(),
+      localKeys: this.getLocalPackageKeys(),
+      maxChains,
+    }).explain(name, version)
+  }
+
+  // The next `depth` levels below a node the client already shows, in the current graph mode.
+  // Node ids are unique within the client's graph: tree mode prefixes them with the expanded node's id.
+  // A link whose target is not among the returned nodes closes a cycle onto the ancestor with that package key.
+  async expand(target: ExpandTarget, depth: number): Promise<{ nodes: NodeDatum[]; links: LinkDatum[] }> {
+    await this.prepareExpansion(target, depth)
+
+    const maxLevel = target.dependencyLevel + Math.max(depth, 1)
+    const sourcePackage =
+      this.parsedData.packages.find((pkg) => getPackageKey(pkg.name || 'unnamed', pkg.version) === target.packageKey) ||
+      null
+    const nodeIdCounter = new Map<string, number>()
+    const rootNode = this.createNode(
+      target.packageKey,
+      target.dependencyLevel,
+      target.isRoot,
+      target.parentPath,
+      nodeIdCounter,
+    )
+    rootNode.id = target.id
+
+    let nodes: NodeDatum[] = [rootNode]
+    const links: LinkDatum[] = []
+
+    if (this.config.graphMode === 'tree') {
+      this.rootIds = new Map(Array.from(this.getLocalPackageKeys()).map((packageKey) => [packageKey, packageKey]))
+      const visitedInBranch = new Map(target.parentPath.map((packageKey) => [packageKey, packageKey]))
+      if (target.isRoot) visitedInBranch.set(target.packageKey, target.id)
+
+      this.buildDependencyTreeOptimized(
+        sourcePackage,
+        rootNode,
+        nodes,
+        links,
+        nodeIdCounter,
+        visitedInBranch,
+        { nodeCount: 1, maxDepth: 0 },
+        this.config.maxNodesPerTree,
+        maxLevel,
+      )
+
+      const ids = new Map(nodes.map((node) => [node.id, node === rootNode ? node.id : `${target.id}>${node.id}`]))
+      for (const node of nodes) node.id = ids.get(node.id) || node.id
+      for (const link of links) {
+        link.source = ids.get(link.source) || link.source
+        link.target = ids.get(link.target) || link.target
+      }
+    } else if (this.config.graphMode === 'dag') {
+      const nodesByKey = new Map([[target.packageKey, rootNode]])
+      this.walkDag([{ node: rootNode, sourcePackage }], nodesByKey, links, nodeIdCounter, maxLevel)
+      nodes = Array.from(nodesByKey.values())
+    } else {
+      const nodesByKey = new Map([[target.packageKey, rootNode]])
+      this.walkDependents([rootNode], nodesByKey, links, nodeIdCounter, this.createDependentsAnalyzer(), maxLevel)
+      nodes = Array.from(nodesByKey.values())
+    }
+
+    this.markCycleLinks(nodes, links, this.cycles)
+    this.calculateNodeMetrics(nodes, links)
+
+    return { nodes, links }
+  }
+
+  private async prepareGraph(): Promise<void> {
+    const cache = await this.loadProject()
+
+    const statsCalculator = new StatsCalculator(this.rootPath, this.parsedData, this.options, cache)
+    const { packageStats, projectStats } = await statsCalculator.calculateStats()
+
+    await this.reportProgress({ phase: 'graph', message: 'Building graph' })
+    this.packageStats = packageStats
+    this.projectStats = projectStats
+    this.indexProject()
+
+    const dependencyEdges = this.collectDependencyEdges()
+    const dependencies = new Map(
+      Array.from(dependencyEdges.entries()).map(([packageKey, edges]) => [
+        packageKey,
+        new Set(edges.map(({ depKey }) => depKey)),
+      ]),
+    )
+    this.cycles = new CycleDetector({
+      dependencies,
+      workspaceKeys: this.getLocalPackageKeys(),
+      allowedCycles: this.config.allowedCycles,
+    }).detect()
+    this.retainedSizeAnalyzer = new RetainedSizeAnalyzer({
+      dependencies: dependencyEdges,
+      localKeys: this.getLocalPackageKeys(),
+      getSize: (packageKey) => this.getPackageSize(packageKey),
+      getWorkspace: (packageKey) => this.getWorkspaceForPackage(parsePackageKey(packageKey).name),
+    })
+    this.centralityAnalyzer = new CentralityAnalyzer({ dependencies: dependencyEdges })
+
+    this.rememberProject()
+  }
+
+  // Without an analysis in this process, the project is parsed again but only the packages the expansion can reach
+  // are measured, and cycles are left out
+  private async prepareExpansion(target: ExpandTarget, depth: number): Promise<void> {
+    this.config = await loadConfig(this.rootPath, this.options.config)
+    if (this.restoreProject()) return
+
+    const cache = await this.loadProject()
+    const packageKeys = this.collectExpansionKeys(target.packageKey, depth)
+    await new StatsCalculator(this.rootPath, this.parsedData, this.options, cache).calculatePackageSizes(packageKeys)
+
+    await this.reportProgress({ phase: 'graph', message: 'Building graph' })
+    this.indexProject()
+  }
+
+  // Packages within `depth` levels of the expanded one, below it or above it in the `dependents` mode
+  private collectExpansionKeys(packageKey: string, depth: number): Set<string> {
+    const dependencies = this.collectDependencyEdges()
+    const neighbors = new Map<string, string[]>()
+    for (const [sourceKey, edges] of dependencies.entries()) {
+      for (const { depKey } of edges) {
+        const [from, to] = this.config.graphMode === 'dependents' ? [depKey, sourceKey] : [sourceKey, depKey]
+        const targets = neighbors.get(from) || []
+        targets.push(to)
+        neighbors.set(from, targets)
+      }
+    }
+
+    const reached = new Set([packageKey])
+    let level = [packageKey]
+    for (let step = 0; step < depth && level.length > 0; step++) {
+      level = level.flatMap((key) => neighbors.get(key) || []).filter((key) => !reached.has(key))
+      for (const key of level) reached.add(key)
+    }
+
+    return reached
+  }
+
+  private indexProject(): void {
+    this.installStates = this.indexInstallStates()
+    this.driftByKey = this.indexDriftIssues()
+    this.overrideAnalyzer = new OverrideAnalyzer(this.parsedData.overrides.rules)
+    this.peerIssuesByKey = this.indexPeerIssues()
+  }
+
+  // What parsing and indexing depend on; the graph mode and limits only shape the graph built from them
+  private getPreparedProjectKey(): string {
+    const { manifests, lockfiles, nodeModules, dependencyTypes, dependencyScope, allowedCycles } = this.config
+    return JSON.stringify([
+      path.resolve(this.rootPath),
+      manifests,
+      lockfiles,
+      nodeModules,
+      dependencyTypes,
+      dependencyScope,
+      allowedCycles,
+    ])
+  }
+
+  private rememberProject(): void {
+    const key = this.getPreparedProjectKey()
+    preparedProjects.delete(key)
+    preparedProjects.set(key, {
+      parsedData: this.parsedData,
+      scopeKeys: this.scopeKeys,
+      packageKeysByName: this.packageKeysByName,
+      packageStats: this.packageStats,
+      installStates: this.installStates,
+      driftByKey: this.driftByKey,
+      overrideAnalyzer: this.overrideAnalyzer,
+      peerIssuesByKey: this.peerIssuesByKey,
+      cycles: this.cycles,
+    })
+
+    // Maps iterate in insertion order, so the first key is the least recent analysis
+    if (preparedProjects.size > maxPreparedProjects) {
+      preparedProjects.delete(preparedProjects.keys().next().value as string)
+    }
+  }
+
+  private restoreProject(): boolean {
+    const prepared = preparedProjects.get(this.getPreparedProjectKey())
+    if (!prepared) return false
+
+    this.parsedData = prepared.parsedData
+    this.scopeKeys = prepared.scopeKeys
+    this.packageKeysByName = prepared.packageKeysByName
+    this.packageStats = prepared.packageStats
+    this.installStates = prepared.installStates
+    this.driftByKey = prepared.driftByKey
+    this.overrideAnalyzer = prepared.overrideAnalyzer
+    this.peerIssuesByKey = prepared.peerIssuesByKey
+    this.cycles = prepared.cycles
+    return true
+  }
+
+  private async loadProject(): Promise<AnalysisCache | null> {
+    this.config = await loadConfig(this.rootPath, this.options.config)
+    const cache = this.config.cache ? new AnalysisCache(this.rootPath) : null
+    const parser = new DataParser(this.rootPath, this.config, this.options, cache)
+    this.parsedData = await parser.parseProject()
+
+    this.scopeKeys = null
+    if (this.config.dependencyScope !== 'all') {
+      this.scopeKeys = new DependencyScope({
+        dependencies: this.collectDependencyEdges(),
+        localKeys: this.getLocalPackageKeys(),
+      }).getPackageKeys(this.config.dependencyScope)
+      this.parsedData = this.limitToScope(this.parsedData, this.scopeKeys)
+    }
+    this.packageKeysByName = this.indexPackageKeysByName()
+
+    return cache
+  }
+
+  // Sizes, stats and lockfile edges only see the packages in scope; the reports keep describing the whole install
+  private limitToScope(parsedData: ParsedData, scopeKeys: Set<string>): ParsedData {
+    return {
+      ...parsedData,
+      installedPackages: new Map(
+        Array.from(parsedData.installedPackages.entries()).filter(([packageKey]) => scopeKeys.has(packageKey)),
+      ),
+      dependencyTree: new Map(
+        Array.from(parsedData.dependencyTree.entries())
+          .filter(([packageKey]) => scopeKeys.has(packageKey))
+          .map(([packageKey, deps]) => [packageKey, new Set(Array.from(deps).filter((dep) => scopeKeys.has(dep)))]),
+      ),
+      installLocations: parsedData.installLocations.filter((location) => scopeKeys.has(location.packageKey)),
+    }
+  }
+
+  private async reportProgress(progress: AnalysisProgress): Promise<void> {
+    this.options.signal?.throwIfAborted()
+    this.options.onProgress?.(progress)
+    await new Promise((resolve) => setImmediate(resolve))
+  }
+
+  private buildStructure(): {
+    nodes: NodeDatum[]
+    links: LinkDatum[]
+    dependents?: DependentsReport
+    omittedRoots?: number
+  } {
+    switch (this.config.graphMode) {
+      case 'dag':
+        return this.buildDagStructure()
+      case 'dependents':
+        return this.buildDependentsStructure()
+      default:
+        return this.buildTreeStructure()
+    }
+  }
+
+  private buildTreeStructure(): { nodes: NodeDatum[]; links: LinkDatum[]; omittedRoots: number } {
     if (!this.parsedData || !this.packageStats) {
       throw new Error('Data not init')
     }
@@ -59,19 +419,35 @@ export class GraphBuilder {
     const nodes: NodeDatum[] = []
     const links: LinkDatum[] = []
     const nodeIdCounter = new Map<string, number>()
-    let totalNodeCount = 0
+    const roots: Array<{ rootPackage: PackageInfo; rootNode: NodeDatum }> = []
+
+    const { maxNodesPerTree, maxDepth } = this.config
 
+    // Every root exists before any tree is built, so a dependency on a local package can link to its root
+    this.rootIds = new Map()
+    let omittedRoots = 0
     for (const rootPackage of this.parsedData.packages) {
-      if (totalNodeCount >= maxNodesPerTree) {
-        break
+      if (nodes.length >= maxNodesPerTree) {
+        omittedRoots++
+        continue
       }
 
-      const treeStats = { nodeCount: 0, maxDepth: 0 }
-
-      const rootNode = this.createNode(rootPackage.name || 'unnamed', 0, true, [], nodeIdCounter)
+      const rootKey = getPackageKey(rootPackage.name || 'unnamed', rootPackage.version)
+      const rootNode = this.createNode(rootKey, 0, true, [], nodeIdCounter)
       nodes.push(rootNode)
-      treeStats.nodeCount++
-      totalNodeCount++
+      roots.push({ rootPackage, rootNode })
+      if (!this.rootIds.has(rootKey)) this.rootIds.set(rootKey, rootNode.id)
+    }
+
+    let totalNodeCount = nodes.length
+    for (const { rootPackage, rootNode } of roots) {
+      if (totalNodeCount >= maxNodesPerTree) {
+        const visitedInBranch = new Map([[rootNode.packageKey, rootNode.id]])
+        this.setOmittedChildren(rootNode, this.countTreeChildren(rootNode, rootPackage, visitedInBranch))
+        continue
+      }
+
+      const treeStats = { nodeCount: 1, maxDepth: 0 }
 
       // Recursively build a tree with constraints
       this.buildDependencyTreeOptimized(
@@ -80,7 +456,7 @@ export class GraphBuilder {
         nodes,
         links,
         nodeIdCounter,
-        new Set([rootPackage.name || 'unnamed']),
+        new Map([[rootNode.packageKey, rootNode.id]]),
         treeStats,
         Math.min(maxNodesPerTree - totalNodeCount, 50000),
         maxDepth,
@@ -88,155 +464,427 @@ export class GraphBuilder {
 
       totalNodeCount += treeStats.nodeCount - 1
     }
-    return { nodes, links }
+    return { nodes, links, omittedRoots }
   }
 
-  private buildDependencyTreeOptimized(
-    sourcePackage: PackageInfo,
-    sourceNode: NodeDatum,
-    nodes: NodeDatum[],
+  // One node per package@version, reached breadth-first so every node keeps its shortest level
+  private buildDagStructure(): { nodes: NodeDatum[]; links: LinkDatum[] } {
+    if (!this.parsedData || !this.packageStats) {
+      throw new Error('Data not init')
+    }
+
+    const nodesByKey = new Map<string, NodeDatum>()
+    const links: LinkDatum[] = []
+    const nodeIdCounter = new Map<string, number>()
+    const queue: Array<{ node: NodeDatum; sourcePackage: PackageInfo | null }> = []
+
+    for (const rootPackage of this.parsedData.packages) {
+      const rootKey = getPackageKey(rootPackage.name || 'unnamed', rootPackage.version)
+      if (nodesByKey.has(rootKey) || nodesByKey.size >= this.config.maxNodesPerTree) continue
+
+      const rootNode = this.createNode(rootKey, 0, true, [], nodeIdCounter)
+      nodesByKey.set(rootKey, rootNode)
+      queue.push({ node: rootNode, sourcePackage: rootPackage })
+    }
+
+    this.walkDag(queue, nodesByKey, links, nodeIdCounter, this.config.maxDepth)
+
+    return { nodes: Array.from(nodesByKey.values()), links }
+  }
+
+  private walkDag(
+    queue: Array<{ node: NodeDatum; sourcePackage: PackageInfo | null }>,
+    nodesByKey: Map<string, NodeDatum>,
     links: LinkDatum[],
     nodeIdCounter: Map<string, number>,
-    visitedInBranch: Set<string>,
-    treeStats: { nodeCount: number; maxDepth: number },
-    maxNodes: number,
-    currentMaxDepth: number,
+    maxLevel: number,
   ): void {
-    if (sourceNode.dependencyLevel >= currentMaxDepth) {
-      return
+    const linkKeys = new Set<string>()
+
+    for (let index = 0; index < queue.length; index++) {
+      const { node: sourceNode, sourcePackage } = queue[index]
+      if (sourceNode.dependencyLevel >= maxLevel) {
+        this.setOmittedChildren(sourceNode, this.countDependencyEdges(sourceNode, sourcePackage))
+        continue
+      }
+
+      const { edges, omitted } = this.getDependencyEdges(sourceNode, sourcePackage)
+      let omittedChildren = omitted
+
+      for (const { depKey, localPackage, link } of edges) {
+        let depNode = nodesByKey.get(depKey)
+        if (!depNode) {
+          if (nodesByKey.size >= this.config.maxNodesPerTree) {
+            omittedChildren++
+            continue
+          }
+
+          depNode = this.createNode(
+            depKey,
+            sourceNode.dependencyLevel + 1,
+            false,
+            [...sourceNode.parentPath, sourceNode.packageKey],
+            nodeIdCounter,
+          )
+          nodesByKey.set(depKey, depNode)
+          queue.push({ node: depNode, sourcePackage: localPackage })
+        }
+
+        const linkKey = `${sourceNode.id}>${depNode.id}`
+        if (depNode === sourceNode || linkKeys.has(linkKey)) continue
+        linkKeys.add(linkKey)
+
+        links.push({ source: sourceNode.id, target: depNode.id, ...link })
+      }
+
+      this.setOmittedChildren(sourceNode, omittedChildren)
     }
+  }
 
-    if (treeStats.nodeCount >= maxNodes) {
-      return
+  // The focused package at the center, every package that depends on it around it, without a depth limit
+  private buildDependentsStructure(): { nodes: NodeDatum[]; links: LinkDatum[]; dependents?: DependentsReport } {
+    if (!this.config.focusPackage) {
+      console.warn('⚠️ The dependents graph mode needs a focusPackage')
+      return { nodes: [], links: [] }
     }
 
-    treeStats.maxDepth = Math.max(treeStats.maxDepth, sourceNode.dependencyLevel)
-    const directDependencies = this.getDirectDependencies(sourcePackage)
+    const analyzer = this.createDependentsAnalyzer()
+    const focusKeys = analyzer.findPackageKeys(this.config.focusPackage)
+    if (focusKeys.length === 0) {
+      console.warn(`⚠️ ${this.config.focusPackage} is not in the dependency graph`)
+    }
+
+    const nodesByKey = new Map<string, NodeDatum>()
+    const links: LinkDatum[] = []
+    const nodeIdCounter = new Map<string, number>()
+    const queue: NodeDatum[] = []
+
+    for (const focusKey of focusKeys) {
+      const focusNode = this.createNode(focusKey, 0, true, [], nodeIdCounter)
+      nodesByKey.set(focusKey, focusNode)
+      queue.push(focusNode)
+    }
 
-    const dependencyEntries = Array.from(directDependencies.entries())
-    const limitedDeps = dependencyEntries.slice(0, maxDependenciesPerNode)
+    this.walkDependents(queue, nodesByKey, links, nodeIdCounter, analyzer, Number.POSITIVE_INFINITY)
+
+    return { nodes: Array.from(nodesByKey.values()), links, dependents: analyzer.buildReport(focusKeys) }
+  }
+
+  private createDependentsAnalyzer(): DependentsAnalyzer {
+    return new DependentsAnalyzer({
+      dependencies: this.collectDependencyEdges(),
+      localKeys: this.getLocalPackageKeys(),
+      installedKeys: new Set(this.parsedData.installedPackages.keys()),
+      getWorkspace: (packageKey) => this.getWorkspaceForPackage(parsePackageKey(packageKey).name),
+    })
+  }
+
+  // Links keep pointing from dependent to dependency, so their type and range read the same as in the other modes
+  private walkDependents(
+    queue: NodeDatum[],
+    nodesByKey: Map<string, NodeDatum>,
+    links: LinkDatum[],
+    nodeIdCounter: Map<string, number>,
+    analyzer: DependentsAnalyzer,
+    maxLevel: number,
+  ): void {
+    const localKeys = this.getLocalPackageKeys()
 
-    for (const [depName, depType] of limitedDeps) {
-      if (visitedInBranch.has(depName)) {
+    for (let index = 0; index < queue.length; index++) {
+      const targetNode = queue[index]
+      const dependents = analyzer.getDependents(targetNode.packageKey)
+      if (targetNode.dependencyLevel >= maxLevel) {
+        this.setOmittedChildren(targetNode, dependents.length)
         continue
       }
 
-      if (treeStats.nodeCount >= maxNodes) {
-        break
-      }
+      let omittedChildren = 0
+      for (const { sourceKey, edge } of dependents) {
+        let sourceNode = nodesByKey.get(sourceKey)
+        if (!sourceNode) {
+          if (nodesByKey.size >= this.config.maxNodesPerTree) {
+            omittedChildren++
+            continue
+          }
 
-      const depNode = this.createNode(
-        depName,
-        sourceNode.dependencyLevel + 1,
-        false,
-        [...sourceNode.parentPath, sourceNode.originalName],
-        nodeIdCounter,
-      )
-      nodes.push(depNode)
-      treeStats.nodeCount++
+          sourceNode = this.createNode(
+            sourceKey,
+            targetNode.dependencyLevel + 1,
+            false,
+            [...targetNode.parentPath, targetNode.packageKey],
+            nodeIdCounter,
+          )
+          nodesByKey.set(sourceKey, sourceNode)
+          queue.push(sourceNode)
+        }
 
-      links.push({
-        source: sourceNode.id,
-        target: depNode.id,
-        type: depType,
-      })
-
-      const newVisited = new Set(visitedInBranch)
-      newVisited.add(sourcePackage.name || sourceNode.originalName)
-
-      const depPackageJson = this.findPackageJsonForDependency(depName)
-      if (depPackageJson) {
-        this.buildDependencyTreeOptimized(
-          depPackageJson,
-          depNode,
-          nodes,
-          links,
-          nodeIdCounter,
-          newVisited,
-          treeStats,
-          maxNodes,
-          currentMaxDepth,
-        )
-      } else {
-        this.buildFromLockFileOptimized(
-          depName,
-          depNode,
-          nodes,
-          links,
-          nodeIdCounter,
-          newVisited,
-          treeStats,
-          maxNodes,
-          currentMaxDepth,
-        )
+        if (sourceNode === targetNode) continue
+        links.push({
+          source: sourceNode.id,
+          target: targetNode.id,
+          type: edge.type,
+          isInternal: localKeys.has(sourceKey) && localKeys.has(targetNode.packageKey),
+          ...this.getRangeCheck(targetNode.packageKey, edge.range),
+        })
       }
+
+      this.setOmittedChildren(targetNode, omittedChildren)
     }
   }
 
-  private buildFromLockFileOptimized(
-    packageName: string,
+  // Local packages follow their manifest, everything else follows the lockfile.
+  // A dependency on a local package links to that package's root instead of repeating its subtree.
+  // A dependency that is already an ancestor in the branch closes a cycle and links back to that ancestor
+  private buildDependencyTreeOptimized(
+    sourcePackage: PackageInfo | null,
     sourceNode: NodeDatum,
     nodes: NodeDatum[],
     links: LinkDatum[],
     nodeIdCounter: Map<string, number>,
-    visitedInBranch: Set<string>,
+    visitedInBranch: Map<string, string>,
     treeStats: { nodeCount: number; maxDepth: number },
     maxNodes: number,
     currentMaxDepth: number,
   ): void {
     if (sourceNode.dependencyLevel >= currentMaxDepth || treeStats.nodeCount >= maxNodes) {
+      this.setOmittedChildren(sourceNode, this.countTreeChildren(sourceNode, sourcePackage, visitedInBranch))
       return
     }
 
-    const lockDependencies = this.parsedData.dependencyTree.get(packageName)
-    if (!lockDependencies || lockDependencies.size === 0) return
+    treeStats.maxDepth = Math.max(treeStats.maxDepth, sourceNode.dependencyLevel)
 
-    const dependencyArray = Array.from(lockDependencies)
-    const limitedDeps = dependencyArray.slice(0, Math.min(maxDependenciesPerNode, maxPerNode))
+    const { edges, omitted } = this.getDependencyEdges(sourceNode, sourcePackage)
+    let omittedChildren = omitted
 
-    for (const depName of limitedDeps) {
-      if (visitedInBranch.has(depName) || treeStats.nodeCount >= maxNodes) {
+    for (const [index, { depKey, localPackage, link }] of edges.entries()) {
+      const rootId = this.rootIds.get(depKey)
+      if (rootId !== undefined) {
+        if (rootId !== sourceNode.id) {
+          links.push({ source: sourceNode.id, target: rootId, ...link })
+        }
         continue
       }
 
+      const ancestorId = visitedInBranch.get(depKey)
+      if (ancestorId !== undefined) {
+        if (ancestorId !== sourceNode.id) {
+          links.push({ source: sourceNode.id, target: ancestorId, ...link, isCycle: true })
+        }
+        continue
+      }
+
+      if (treeStats.nodeCount >= maxNodes) {
+        omittedChildren += edges.slice(index).filter(({ depKey }) => this.isTreeChild(depKey, visitedInBranch)).length
+        break
+      }
+
       const depNode = this.createNode(
-        depName,
+        depKey,
         sourceNode.dependencyLevel + 1,
         false,
-        [...sourceNode.parentPath, sourceNode.originalName],
+        [...sourceNode.parentPath, sourceNode.packageKey],
         nodeIdCounter,
       )
       nodes.push(depNode)
       treeStats.nodeCount++
 
-      links.push({
-        source: sourceNode.id,
-        target: depNode.id,
-        type: 'dependency',
-      })
-
-      if (this.shouldContinueRecursion(depName, sourceNode.dependencyLevel)) {
-        const newVisited = new Set(visitedInBranch)
-        newVisited.add(packageName)
-
-        this.buildFromLockFileOptimized(
-          depName,
-          depNode,
-          nodes,
-          links,
-          nodeIdCounter,
-          newVisited,
-          treeStats,
-          maxNodes,
-          currentMaxDepth,
-        )
+      links.push({ source: sourceNode.id, target: depNode.id, ...link })
+
+      const newVisited = new Map(visitedInBranch)
+      newVisited.set(sourceNode.packageKey, sourceNode.id)
+
+      this.buildDependencyTreeOptimized(
+        localPackage,
+        depNode,
+        nodes,
+        links,
+        nodeIdCounter,
+        newVisited,
+        treeStats,
+        maxNodes,
+        currentMaxDepth,
+      )
+    }
+
+    this.setOmittedChildren(sourceNode, omittedChildren)
+  }
+
+  // Edges within the per-node limits, and how many the limits cut off
+  private getDependencyEdges(
+    sourceNode: NodeDatum,
+    sourcePackage: PackageInfo | null,
+  ): {
+    edges: Array<{ depKey: string; localPackage: PackageInfo | null; link: Omit<LinkDatum, 'source' | 'target'> }>
+    omitted: number
+  } {
+    if (sourcePackage) {
+      const manifestDependencies = this.getManifestDependencies(sourcePackage)
+      const edges = manifestDependencies
+        .slice(0, this.config.maxDependenciesPerNode)
+        .map(({ depKey, localPackage, type, specifier }) => ({
+          depKey,
+          localPackage,
+          link: {
+            type,
+            isInternal: !!localPackage,
+            ...this.getRangeCheck(depKey, specifier),
+            override: localPackage ? undefined : this.getLinkOverride(sourceNode, depKey, specifier),
+          },
+        }))
+
+      return { edges, omitted: manifestDependencies.length - edges.length }
+    }
+
+    const lockDependencies = this.getLockDependencies(sourceNode.packageKey)
+    const edges = lockDependencies
+      .slice(0, Math.min(this.config.maxDependenciesPerNode, this.config.maxPerNode))
+      .map(({ depKey, type, range }) => ({
+        depKey,
+        localPackage: null,
+        link: {
+          type,
+          ...this.getRangeCheck(depKey, range),
+          override: this.getLinkOverride(sourceNode, depKey, range),
+        },
+      }))
+
+    return { edges, omitted: lockDependencies.length - edges.length }
+  }
+
+  // Same count as getDependencyEdges without resolving anything, for nodes past the depth or node limits
+  private countTreeChildren(
+    sourceNode: NodeDatum,
+    sourcePackage: PackageInfo | null,
+    visitedInBranch: Map<string, string>,
+  ): number {
+    const edges = sourcePackage
+      ? this.getManifestDependencies(sourcePackage)
+      : this.getLockDependencies(sourceNode.packageKey)
+    return edges.filter(({ depKey }) => this.isTreeChild(depKey, visitedInBranch)).length
+  }
+
+  // Dependencies on a root or an ancestor only link back to it, so they never become children
+  private isTreeChild(depKey: string, visitedInBranch: Map<string, string>): boolean {
+    return !this.rootIds.has(depKey) && !visitedInBranch.has(depKey)
+  }
+
+  private countDependencyEdges(sourceNode: NodeDatum, sourcePackage: PackageInfo | null): number {
+    if (sourcePackage) return this.getManifestDependencies(sourcePackage).length
+
+    return this.getLockDependencies(sourceNode.packageKey).length
+  }
+
+  // Manifest edges of a local package, resolved and limited to the dependency scope
+  private getManifestDependencies(sourcePackage: PackageInfo): Array<{
+    depKey: string
+    localPackage: PackageInfo | null
+    type: LinkDatum['type']
+    specifier: string
+  }> {
+    const lockedKeys = this.getImporterKeys(sourcePackage)
+
+    return Array.from(this.getDirectDependencies(sourcePackage).entries())
+      .map(([depName, { type, specifier }]) => ({
+        type,
+        specifier,
+        ...this.resolveManifestDependency(sourcePackage, depName, specifier, lockedKeys),
+      }))
+      .filter(({ depKey, type }) => this.isInScope(depKey, type))
+  }
+
+  private isInScope(depKey: string, type: LinkDatum['type']): boolean {
+    if (!this.scopeKeys) return true
+    if (this.config.dependencyScope === 'production' && type === 'devDependency') return false
+
+    return this.scopeKeys.has(depKey)
+  }
+
+  // Lockfile edges with the type the lockfile or installed manifest records, limited to the configured types
+  private getLockDependencies(packageKey: string): DependencyEdge[] {
+    const declaredRanges = this.parsedData.declaredRanges.get(packageKey)
+    const edgeTypes = this.parsedData.edgeTypes.get(packageKey)
+
+    return Array.from(this.parsedData.dependencyTree.get(packageKey) || [])
+      .map((depKey) => ({
+        depKey,
+        type: toLinkType(edgeTypes?.get(depKey)),
+        range: declaredRanges?.get(parsePackageKey(depKey).name),
+      }))
+      .filter(({ type }) => this.config.dependencyTypes.includes(type))
+  }
+
+  private setOmittedChildren(node: NodeDatum, omittedChildren: number): void {
+    node.omittedChildren = omittedChildren > 0 ? omittedChildren : undefined
+  }
+
+  private resolveManifestDependency(
+    sourcePackage: PackageInfo,
+    depName: string,
+    specifier: string,
+    lockedKeys: Map<string, string>,
+  ): { depKey: string; localPackage: PackageInfo | null } {
+    const localPackage = this.findLocalPackage(sourcePackage, depName, specifier)
+    const depKey = localPackage
+      ? getPackageKey(localPackage.name, localPackage.version)
+      : this.resolveDependencyKey(depName, lockedKeys.get(depName), specifier)
+
+    return { depKey, localPackage }
+  }
+
+  private getLocalPackageKeys(): Set<string> {
+    return new Set(this.parsedData.packages.map((pkg) => getPackageKey(pkg.name || 'unnamed', pkg.version)))
+  }
+
+  // Every edge without depth or per-node limits: manifests for local packages, the lockfile for the rest
+  private collectDependencyEdges(): Map<string, DependencyEdge[]> {
+    const dependencies = new Map<string, DependencyEdge[]>()
+    const localKeys = this.getLocalPackageKeys()
+
+    for (const sourcePackage of this.parsedData.packages) {
+      const sourceKey = getPackageKey(sourcePackage.name || 'unnamed', sourcePackage.version)
+      const edges = dependencies.get(sourceKey) || []
+
+      for (const { depKey, type, specifier } of this.getManifestDependencies(sourcePackage)) {
+        edges.push({ depKey, type, range: specifier })
+      }
+      dependencies.set(sourceKey, edges)
+    }
+
+    for (const packageKey of this.parsedData.dependencyTree.keys()) {
+      if (!localKeys.has(packageKey)) {
+        dependencies.set(packageKey, this.getLockDependencies(packageKey))
+      }
+    }
+
+    return dependencies
+  }
+
+  private markCycleLinks(nodes: NodeDatum[], links: LinkDatum[], cycles: DependencyCycle[]): void {
+    // A workspace package can sit in a workspace cycle and in a wider one through external packages
+    const cyclesByKey = new Map<string, Set<number>>()
+    cycles.forEach((cycle, index) => {
+      for (const packageKey of cycle.packages) {
+        const indices = cyclesByKey.get(packageKey) || new Set<number>()
+        indices.add(index)
+        cyclesByKey.set(packageKey, indices)
+      }
+    })
+
+    // Links of an expansion may point at nodes the client already has, by package key
+    const packageKeyById = new Map(nodes.map((node) => [node.id, node.packageKey]))
+    for (const link of links) {
+      const { sourceId, targetId } = getSourceAndTarget(link)
+      const sourceCycles = cyclesByKey.get(packageKeyById.get(sourceId) || sourceId)
+      const targetCycles = cyclesByKey.get(packageKeyById.get(targetId) || targetId)
+      if (sourceCycles && targetCycles && Array.from(sourceCycles).some((index) => targetCycles.has(index))) {
+        link.isCycle = true
       }
     }
   }
 
   // biome-ignore lint/suspicious/noExplicitAny: <json>
-  private getDirectDependencies(packageJson: any): Map<string, LinkDatum['type']> {
-    const deps = new Map<string, LinkDatum['type']>()
+  private getDirectDependencies(packageJson: any): Map<string, { type: LinkDatum['type']; specifier: string }> {
+    const deps = new Map<string, { type: LinkDatum['type']; specifier: string }>()
 
     const depTypes = [
       { source: packageJson.dependencies, type: 'dependency' as const },
@@ -246,10 +894,10 @@ export class GraphBuilder {
     ]
 
     for (const { source, type } of depTypes) {
-      if (source && typeof source === 'object') {
-        for (const depName of Object.keys(source)) {
+      if (source && typeof source === 'object' && this.config.dependencyTypes.includes(type)) {
+        for (const [depName, specifier] of Object.entries(source)) {
           if (!deps.has(depName) && typeof depName === 'string' && depName.trim()) {
-            deps.set(depName, type)
+            deps.set(depName, { type, specifier: typeof specifier === 'string' ? specifier : '*' })
           }
         }
       }
@@ -258,8 +906,140 @@ export class GraphBuilder {
     return deps
   }
 
-  private shouldContinueRecursion(_packageName: string, currentLevel: number): boolean {
-    return currentLevel < maxDepth
+  // Package keys the lockfile resolved each manifest dependency to, by the name the manifest uses
+  private getImporterKeys(packageInfo: PackageInfo): Map<string, string> {
+    const packageKeys = new Map<string, string>()
+    const importerDependencies = this.parsedData.importers.get(path.dirname(packageInfo.path)) || []
+
+    for (const dependency of importerDependencies) {
+      // Local links keep the version from the linked package itself
+      if (!dependency.version.startsWith('link:') && !dependency.version.startsWith('file:')) {
+        packageKeys.set(dependency.name, getPackageKey(dependency.realName || dependency.name, dependency.version))
+      }
+    }
+
+    return packageKeys
+  }
+
+  private indexPackageKeysByName(): Map<string, string[]> {
+    const keysByName = new Map<string, string[]>()
+
+    for (const [packageKey, installedInfo] of this.parsedData.installedPackages.entries()) {
+      const keys = keysByName.get(installedInfo.name) || []
+      keys.push(packageKey)
+      keysByName.set(installedInfo.name, keys)
+    }
+
+    return keysByName
+  }
+
+  private indexInstallStates(): Map<string, { state: NonNullable<NodeDatum['installState']>; nestedUnder: string[] }> {
+    const locationsByKey = new Map<string, { hoisted: boolean; nestedUnder: Set<string> }>()
+
+    for (const location of this.parsedData.installLocations) {
+      const entry = locationsByKey.get(location.packageKey) || { hoisted: false, nestedUnder: new Set<string>() }
+      if (location.isHoisted) {
+        entry.hoisted = true
+      } else if (location.parentKey) {
+        entry.nestedUnder.add(location.parentKey)
+      }
+      locationsByKey.set(location.packageKey, entry)
+    }
+
+    const installStates = new Map<string, { state: NonNullable<NodeDatum['installState']>; nestedUnder: string[] }>()
+    for (const [packageKey, { hoisted, nestedUnder }] of locationsByKey.entries()) {
+      const state = hoisted && nestedUnder.size > 0 ? 'hoisted-and-nested' : hoisted ? 'hoisted' : 'nested'
+      installStates.set(packageKey, { state, nestedUnder: Array.from(nestedUnder) })
+    }
+
+    return installStates
+  }
+
+  private getRangeCheck(
+    depKey: string,
+    range: string | undefined,
+  ): Pick<LinkDatum, 'range' | 'resolvedVersion' | 'satisfiesRange'> {
+    const { version } = parsePackageKey(depKey)
+    if (!range) return { resolvedVersion: version }
+
+    return { range, resolvedVersion: version, satisfiesRange: satisfiesRange(version, range) }
+  }
+
+  private getLinkOverride(sourceNode: NodeDatum, depKey: string, specifier?: string): LinkDatum['override'] {
+    const { name, version } = parsePackageKey(depKey)
+    const ancestorNames = sourceNode.parentPath.map((parentKey) => parsePackageKey(parentKey).name)
+    const rule = this.overrideAnalyzer.findRule(sourceNode.name, name, version, specifier, ancestorNames)
+    if (!rule) return undefined
+
+    return { selector: rule.selector, target: rule.target, applied: this.overrideAnalyzer.isApplied(rule, version) }
+  }
+
+  private indexDriftIssues(): Map<string, DriftIssue[]> {
+    const driftByKey = new Map<string, DriftIssue[]>()
+
+    for (const issue of this.parsedData.drift.issues) {
+      const issues = driftByKey.get(issue.packageKey) || []
+      issues.push(issue)
+      driftByKey.set(issue.packageKey, issues)
+    }
+
+    return driftByKey
+  }
+
+  private indexPeerIssues(): Map<string, PeerDependencyIssue[]> {
+    const peerIssuesByKey = new Map<string, PeerDependencyIssue[]>()
+
+    for (const issue of this.parsedData.peerDependencies.issues) {
+      const issues = peerIssuesByKey.get(issue.packageKey) || []
+      issues.push(issue)
+      peerIssuesByKey.set(issue.packageKey, issues)
+    }
+
+    return peerIssuesByKey
+  }
+
+  // Lockfiles without importer data fall back to whichever installed version carries the name
+  private resolveDependencyKey(depName: string, lockedKey: string | undefined, specifier: string): string {
+    if (lockedKey) {
+      return lockedKey
+    }
+
+    const installedKeys = this.packageKeysByName.get(depName)
+    if (installedKeys && installedKeys.length > 0) {
+      // The highest installed version the range allows, like the package manager would have picked
+      const { range } = parseDependencySpecifier(specifier)
+      const versions = installedKeys.map((packageKey) => parsePackageKey(packageKey).version)
+      const version = validRange(range) ? maxSatisfying(versions, range) : null
+      return version ? installedKeys[versions.indexOf(version)] : installedKeys[0]
+    }
+
+    return getPackageKey(depName, specifier)
+  }
+
+  // workspace:, link:, file: and portal: specifiers point at a local package by path or name
+  private findLocalPackage(sourcePackage: PackageInfo, depName: string, specifier: string): PackageInfo | null {
+    const parsed = parseDependencySpecifier(specifier)
+
+    if (parsed.path !== undefined && parsed.protocol !== 'tarball') {
+      const sourceDir = path.dirname(sourcePackage.path)
+      // Yarn resolves `workspace:<path>` from the project root rather than from the dependent
+      const baseDirs = parsed.protocol === 'workspace' ? [sourceDir, this.rootPath] : [sourceDir]
+
+      for (const baseDir of baseDirs) {
+        const targetDir = path.resolve(baseDir, parsed.path)
+        const localPackage = this.parsedData.packages.find((pkg) => path.resolve(path.dirname(pkg.path)) === targetDir)
+        if (localPackage) return localPackage
+      }
+
+      return null
+    }
+
+    if (parsed.protocol === 'workspace') {
+      return this.findPackageJsonForDependency(parsed.name || depName)
+    }
+
+    // Plain ranges match a workspace package of the same name; aliases, git and tarballs are always downloaded
+    return parsed.protocol === 'npm' ? this.findPackageJsonForDependency(depName) : null
   }
 
   private findPackageJsonForDependency(depName: string): PackageInfo | null {
@@ -267,37 +1047,65 @@ export class GraphBuilder {
   }
 
   private createNode(
-    packageName: string,
+    packageKey: string,
     level: number,
     isRoot: boolean,
     parentPath: string[],
     nodeIdCounter: Map<string, number>,
   ): NodeDatum {
-    const currentCount = nodeIdCounter.get(packageName) || 0
-    nodeIdCounter.set(packageName, currentCount + 1)
+    const currentCount = nodeIdCounter.get(packageKey) || 0
+    nodeIdCounter.set(packageKey, currentCount + 1)
 
-    const uniqueId = currentCount === 0 ? packageName : `${packageName}-duplicate-${currentCount}`
+    const uniqueId = currentCount === 0 ? packageKey : `${packageKey}-duplicate-${currentCount}`
 
-    const packageStats = this.packageStats?.get(packageName)
-    const installedInfo = this.parsedData.installedPackages.get(packageName)
-    const rootPackage = this.parsedData.packages.find((p) => p.name === packageName)
+    const packageStats = this.packageStats?.get(packageKey)
+    const installedInfo = this.parsedData.installedPackages.get(packageKey)
+    const { name: packageName, version } = installedInfo || parsePackageKey(packageKey)
+    // A registry copy can share its name with a local package, so only the same version is that package
+    const rootPackage = this.parsedData.packages.find(
+      (p) => getPackageKey(p.name || 'unnamed', p.version) === packageKey,
+    )
+    const installState = this.installStates.get(packageKey)
 
     return {
       id: uniqueId,
       name: packageName,
       originalName: packageName,
-      version: packageStats?.version || installedInfo?.version || '1.0.0',
+      packageKey,
+      version: packageStats?.version || version,
       isRoot,
       isInstalled: !!installedInfo,
       depCount: 0,
       inDegree: 0,
       type: isRoot ? 'root' : 'dependency',
       packagePath: rootPackage?.path,
-      size: packageStats?.size || installedInfo?.size || 0,
+      size: this.getPackageSize(packageKey),
       formattedSize: packageStats?.formattedSize || formatSize(installedInfo?.size || 0),
+      transitiveSize: this.retainedSizeAnalyzer?.getTransitiveSize(packageKey),
+      exclusiveSize: this.retainedSizeAnalyzer?.getExclusiveSize(packageKey),
+      metrics: this.centralityAnalyzer ? this.getPackageMetrics(packageKey) : undefined,
       dependencyLevel: level,
       workspaceId: this.getWorkspaceForPackage(packageName),
       parentPath,
+      installState: installState?.state,
+      nestedUnder: installState?.nestedUnder,
+      drift: this.driftByKey.get(packageKey),
+      source: rootPackage ? { kind: 'local' } : this.parsedData.packageSources.get(packageKey),
+      peerIssues: this.peerIssuesByKey.get(packageKey),
+    }
+  }
+
+  private getPackageSize(packageKey: string): number {
+    return this.packageStats?.get(packageKey)?.size || this.parsedData.installedPackages.get(packageKey)?.size || 0
+  }
+
+  private getPackageMetrics(packageKey: string): PackageMetrics {
+    return {
+      pageRank: 0,
+      betweenness: 0,
+      transitiveDependents: 0,
+      ...this.centralityAnalyzer?.getMetrics(packageKey),
+      dominatedPackages: this.retainedSizeAnalyzer?.getDominatedCount(packageKey) || 0,
     }
   }
 
@@ -330,8 +1138,8 @@ export class GraphBuilder {
     const duplicationMap = new Map<string, number>()
 
     for (const node of nodes) {
-      const count = duplicationMap.get(node.originalName) || 0
-      duplicationMap.set(node.originalName, count + 1)
+      const count = duplicationMap.get(node.packageKey) || 0
+      duplicationMap.set(node.packageKey, count + 1)
     }
 
     const duplicated = new Map<string, number>()
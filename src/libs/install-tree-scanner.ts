@@ -0,0 +1,133 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { getPackageKey } from '@/libs/utils'
+import type { InstallLocation } from '@/types'
+
+export class InstallTreeScanner {
+  private readonly projectDirs: Set<string>
+  private readonly locations: InstallLocation[] = []
+  private readonly visitedLocations = new Set<string>()
+  private readonly visitedRealPaths = new Set<string>()
+  private readonly isIncluded: (locationPath: string) => boolean
+
+  // Excluded locations are skipped together with everything nested below them
+  constructor(projectDirs: string[], isIncluded: (locationPath: string) => boolean = () => true) {
+    this.projectDirs = new Set(projectDirs.map((dir) => path.resolve(dir)))
+    this.isIncluded = isIncluded
+  }
+
+  scan(): InstallLocation[] {
+    // Every project's own node_modules is scanned first so its packages count as hoisted
+    for (const projectDir of this.projectDirs) {
+      this.scanNodeModulesDir(path.join(projectDir, 'node_modules'), null, true)
+    }
+
+    return this.locations
+  }
+
+  private scanNodeModulesDir(
+    nodeModulesPath: string,
+    parentKey: string | null,
+    isHoisted: boolean,
+    skipPath?: string,
+  ): void {
+    let entries: fs.Dirent[]
+    try {
+      entries = fs.readdirSync(nodeModulesPath, { withFileTypes: true })
+    } catch (_error) {
+      return
+    }
+
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue
+
+      if (entry.name.startsWith('@')) {
+        // Scoped packages
+        const scopePath = path.join(nodeModulesPath, entry.name)
+        try {
+          for (const scopedName of fs.readdirSync(scopePath)) {
+            const fullName = `${entry.name}/${scopedName}`
+            this.processLocation(path.join(scopePath, scopedName), fullName, parentKey, isHoisted, skipPath)
+          }
+        } catch (error) {
+          console.warn(`⚠️ Error scoped packages in ${scopePath}:`, error)
+        }
+      } else {
+        // Regular packages
+        this.processLocation(path.join(nodeModulesPath, entry.name), entry.name, parentKey, isHoisted, skipPath)
+      }
+    }
+  }
+
+  private processLocation(
+    locationPath: string,
+    packageName: string,
+    parentKey: string | null,
+    isHoisted: boolean,
+    skipPath?: string,
+  ): void {
+    if (this.visitedLocations.has(locationPath) || !this.isIncluded(locationPath)) return
+    this.visitedLocations.add(locationPath)
+
+    let realPath: string
+    let isSymlink: boolean
+    try {
+      isSymlink = fs.lstatSync(locationPath).isSymbolicLink()
+      realPath = fs.realpathSync(locationPath)
+      if (realPath === skipPath || !fs.statSync(realPath).isDirectory()) return
+    } catch (_error) {
+      // Broken symlink
+      return
+    }
+
+    const manifest = this.readManifest(realPath)
+    if (!manifest) return
+
+    const { version } = manifest
+    const packageKey = getPackageKey(packageName, version)
+    this.locations.push({
+      path: locationPath,
+      realPath,
+      name: packageName,
+      version,
+      packageKey,
+      parentKey,
+      isSymlink,
+      isHoisted,
+      // Aliased installs live under the alias folder but keep the published name in their manifest
+      realName: manifest.name && manifest.name !== packageName ? manifest.name : undefined,
+    })
+
+    if (this.visitedRealPaths.has(realPath) || this.projectDirs.has(realPath)) return
+    this.visitedRealPaths.add(realPath)
+
+    // Nested installs that only this package resolves
+    this.scanNodeModulesDir(path.join(realPath, 'node_modules'), packageKey, false)
+
+    // pnpm links dependencies as siblings of the real package inside its virtual store folder
+    const containingNodeModules = this.getContainingNodeModules(realPath, packageName)
+    if (isSymlink && containingNodeModules) {
+      this.scanNodeModulesDir(containingNodeModules, packageKey, false, realPath)
+    }
+  }
+
+  private getContainingNodeModules(realPath: string, packageName: string): string | null {
+    let containingDir = path.dirname(realPath)
+    if (packageName.startsWith('@')) {
+      containingDir = path.dirname(containingDir)
+    }
+    return path.basename(containingDir) === 'node_modules' ? containingDir : null
+  }
+
+  private readManifest(packagePath: string): { name?: string; version: string } | null {
+    try {
+      const packageJson = JSON.parse(fs.readFileSync(path.join(packagePath, 'package.json'), 'utf8'))
+      return {
+        name: typeof packageJson.name === 'string' ? packageJson.name : undefined,
+        version: packageJson.version || '1.0.0',
+      }
+    } catch (_error) {
+      return null
+    }
+  }
+}
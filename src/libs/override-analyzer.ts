@@ -0,0 +1,363 @@
+import * as path from 'node:path'
+import { intersects, satisfies, validRange } from 'semver'
+import { parsePackageKey } from '@/libs/utils'
+import type { ImporterDependency, OverrideConflict, OverrideReport, OverrideRule, PackageInfo } from '@/types'
+
+// biome-ignore lint/suspicious/noExplicitAny: <json>
+export function parseOverrideRules(manifest: any, manifestPath: string): OverrideRule[] {
+  const rules: OverrideRule[] = []
+
+  if (isRecord(manifest?.overrides)) {
+    collectNpmOverrides(manifest, manifest.overrides, [], manifestPath, rules)
+  }
+
+  if (isRecord(manifest?.resolutions)) {
+    for (const [selector, target] of Object.entries(manifest.resolutions)) {
+      if (typeof target !== 'string') continue
+      // `a/b`, `**/b` and `@scope/a/**/@scope/b` all end with the overridden package
+      const segments = splitYarnSelector(selector)
+      const last = segments.pop()
+      if (!last) continue
+      rules.push(
+        createRule(
+          'resolutions',
+          manifestPath,
+          selector,
+          last,
+          segments.map((segment) => (segment === '**' ? segment : splitSelector(segment).name)),
+          target,
+        ),
+      )
+    }
+  }
+
+  if (isRecord(manifest?.pnpm?.overrides)) {
+    for (const [selector, target] of Object.entries(manifest.pnpm.overrides)) {
+      // `-` removes the dependency instead of overriding it
+      if (typeof target !== 'string' || target === '-') continue
+      const segments = selector.split('>')
+      const last = segments.pop() as string
+      rules.push(
+        createRule(
+          'pnpm.overrides',
+          manifestPath,
+          selector,
+          last,
+          segments.map((segment) => splitSelector(segment).name),
+          target,
+        ),
+      )
+    }
+  }
+
+  return rules
+}
+
+export class OverrideAnalyzer {
+  private readonly rulesByName = new Map<string, OverrideRule[]>()
+
+  constructor(rules: OverrideRule[]) {
+    for (const rule of rules) {
+      const namedRules = this.rulesByName.get(rule.name) || []
+      namedRules.push(rule)
+      this.rulesByName.set(rule.name, namedRules)
+    }
+
+    // Scoped rules win over global ones, like in the package managers
+    for (const namedRules of this.rulesByName.values()) {
+      namedRules.sort((a, b) => b.parents.length - a.parents.length)
+    }
+  }
+
+  // Ancestors above the direct parent are only checked when the caller knows them
+  findRule(
+    parentName: string | null,
+    depName: string,
+    version: string,
+    specifier?: string,
+    ancestorNames?: string[],
+  ): OverrideRule | null {
+    return this.findRules(parentName, depName, version, specifier, ancestorNames)[0] || null
+  }
+
+  isApplied(rule: OverrideRule, version: string): boolean {
+    let target = rule.target.replace(/^npm:/, '')
+    // Aliases force another package: `npm:other@1.0.0`
+    const atIndex = target.indexOf('@', 1)
+    if (atIndex > 0) {
+      target = target.substring(atIndex + 1)
+    }
+
+    // Git, tarball and path targets cannot be checked against a version
+    if (!validRange(target)) return true
+    return version === target || satisfies(version, target)
+  }
+
+  analyze(
+    packages: PackageInfo[],
+    dependencyTree: Map<string, Set<string>>,
+    importers: Map<string, ImporterDependency[]>,
+    declaredRanges: Map<string, Map<string, string>>,
+  ): OverrideReport {
+    const rules = Array.from(this.rulesByName.values()).flat()
+    const matched = new Set<OverrideRule>()
+
+    for (const [packageKey, deps] of dependencyTree.entries()) {
+      const parentName = parsePackageKey(packageKey).name
+      const ranges = declaredRanges.get(packageKey)
+      for (const depKey of deps) {
+        const { name, version } = parsePackageKey(depKey)
+        for (const rule of this.findRules(parentName, name, version, ranges?.get(name))) {
+          matched.add(rule)
+        }
+      }
+    }
+
+    const packagesByDir = new Map(packages.map((pkg) => [path.dirname(pkg.path), pkg]))
+    for (const [importerDir, dependencies] of importers.entries()) {
+      const importer = packagesByDir.get(importerDir)
+      for (const { name, version, realName } of dependencies) {
+        if (version.startsWith('link:') || version.startsWith('file:')) continue
+        const specifier =
+          importer?.dependencies[name] ||
+          importer?.devDependencies[name] ||
+          importer?.optionalDependencies[name] ||
+          importer?.peerDependencies[name]
+        for (const rule of this.findRules(importer?.name || null, realName || name, version, specifier)) {
+          matched.add(rule)
+        }
+      }
+    }
+
+    return {
+      rules,
+      unmatched: rules.filter((rule) => !matched.has(rule)),
+      conflicts: this.findConflicts(),
+    }
+  }
+
+  // Two rules conflict when they target the same package in the same scope and ranges but force different versions
+  private findConflicts(): OverrideConflict[] {
+    const conflicts: OverrideConflict[] = []
+
+    for (const [name, namedRules] of this.rulesByName.entries()) {
+      const rulesByScope = new Map<string, OverrideRule[]>()
+      for (const rule of namedRules) {
+        const scope = rule.parents.join('>')
+        rulesByScope.set(scope, [...(rulesByScope.get(scope) || []), rule])
+      }
+
+      for (const scopedRules of rulesByScope.values()) {
+        const conflicting = new Set<OverrideRule>()
+        for (let i = 0; i < scopedRules.length; i++) {
+          for (let j = i + 1; j < scopedRules.length; j++) {
+            const [a, b] = [scopedRules[i], scopedRules[j]]
+            if (a.target !== b.target && this.rangesOverlap(a.range, b.range)) {
+              conflicting.add(a)
+              conflicting.add(b)
+            }
+          }
+        }
+
+        if (conflicting.size > 0) {
+          conflicts.push({ name, rules: Array.from(conflicting) })
+        }
+      }
+    }
+
+    return conflicts
+  }
+
+  // Every rule covering the edge, the one that takes effect first
+  private findRules(
+    parentName: string | null,
+    depName: string,
+    version: string,
+    specifier?: string,
+    ancestorNames?: string[],
+  ): OverrideRule[] {
+    return (this.rulesByName.get(depName) || []).filter(
+      (rule) => this.matchesParents(rule, parentName, ancestorNames) && this.matchesRange(rule, version, specifier),
+    )
+  }
+
+  private matchesParents(rule: OverrideRule, parentName: string | null, ancestorNames?: string[]): boolean {
+    if (rule.parents.length === 0) return true
+
+    // npm applies nested overrides anywhere below the parent, pnpm and Yarn only to its direct dependencies
+    if (rule.source === 'overrides') {
+      return !ancestorNames || this.containsInOrder([...ancestorNames, parentName || ''], rule.parents)
+    }
+
+    // Yarn's `**` stands for any chain of ancestors, including none
+    if (rule.source === 'resolutions' && rule.parents.includes('**')) {
+      if (!ancestorNames) {
+        const directParent = rule.parents[rule.parents.length - 1]
+        return directParent === '**' || directParent === parentName
+      }
+      return this.matchesGlob([...ancestorNames, parentName || ''], rule.parents)
+    }
+
+    if (rule.parents[rule.parents.length - 1] !== parentName) return false
+    return !ancestorNames || this.containsInOrder(ancestorNames, rule.parents.slice(0, -1))
+  }
+
+  private matchesRange(rule: OverrideRule, version: string, specifier?: string): boolean {
+    if (rule.range === '*') return true
+
+    if (specifier && validRange(specifier)) {
+      return this.rangesOverlap(rule.range, specifier)
+    }
+
+    // Without the requested range, only the resolved version is left to compare
+    try {
+      return satisfies(version, rule.range)
+    } catch (_error) {
+      return false
+    }
+  }
+
+  private rangesOverlap(a: string, b: string): boolean {
+    if (a === '*' || b === '*' || a === b) return true
+
+    try {
+      return intersects(a, b)
+    } catch (_error) {
+      return false
+    }
+  }
+
+  // Matches the pattern against the end of the chain, the direct parent last
+  private matchesGlob(
+    names: string[],
+    pattern: string[],
+    nameIndex = names.length - 1,
+    patternIndex = pattern.length - 1,
+  ): boolean {
+    if (patternIndex < 0) return true
+    if (pattern[patternIndex] === '**') {
+      return (
+        this.matchesGlob(names, pattern, nameIndex, patternIndex - 1) ||
+        (nameIndex >= 0 && this.matchesGlob(names, pattern, nameIndex - 1, patternIndex))
+      )
+    }
+    if (nameIndex < 0 || names[nameIndex] !== pattern[patternIndex]) return false
+    return this.matchesGlob(names, pattern, nameIndex - 1, patternIndex - 1)
+  }
+
+  private containsInOrder(names: string[], expected: string[]): boolean {
+    let index = 0
+    for (const name of names) {
+      if (index < expected.length && name === expected[index]) {
+        index++
+      }
+    }
+    return index === expected.length
+  }
+}
+
+function collectNpmOverrides(
+  // biome-ignore lint/suspicious/noExplicitAny: <json>
+  manifest: any,
+  // biome-ignore lint/suspicious/noExplicitAny: <json>
+  overrides: Record<string, any>,
+  parents: string[],
+  manifestPath: string,
+  rules: OverrideRule[],
+): void {
+  for (const [selector, value] of Object.entries(overrides)) {
+    if (selector === '.') continue
+
+    const fullSelector = [...parents, selector].join(' > ')
+    const parentNames = parents.map((parent) => splitSelector(parent).name)
+
+    if (typeof value === 'string') {
+      rules.push(
+        createRule(
+          'overrides',
+          manifestPath,
+          fullSelector,
+          selector,
+          parentNames,
+          resolveNpmReference(manifest, value),
+        ),
+      )
+    } else if (isRecord(value)) {
+      // `{ "a": { ".": "1.0.0", "b": "2.0.0" } }` overrides `a` itself and `b` below it
+      if (typeof value['.'] === 'string') {
+        rules.push(
+          createRule(
+            'overrides',
+            manifestPath,
+            fullSelector,
+            selector,
+            parentNames,
+            resolveNpmReference(manifest, value['.']),
+          ),
+        )
+      }
+      collectNpmOverrides(manifest, value, [...parents, selector], manifestPath, rules)
+    }
+  }
+}
+
+// `$name` points at the version the root manifest itself depends on
+// biome-ignore lint/suspicious/noExplicitAny: <json>
+function resolveNpmReference(manifest: any, value: string): string {
+  if (!value.startsWith('$')) return value
+
+  const name = value.substring(1)
+  return (
+    manifest.dependencies?.[name] ||
+    manifest.devDependencies?.[name] ||
+    manifest.optionalDependencies?.[name] ||
+    manifest.peerDependencies?.[name] ||
+    value
+  )
+}
+
+function createRule(
+  source: OverrideRule['source'],
+  manifestPath: string,
+  selector: string,
+  packageSelector: string,
+  parents: string[],
+  target: string,
+): OverrideRule {
+  const { name, range } = splitSelector(packageSelector)
+  return { source, manifestPath, selector, name, range, parents, target }
+}
+
+function splitSelector(selector: string): { name: string; range: string } {
+  const atIndex = selector.indexOf('@', 1)
+  if (atIndex < 0) {
+    return { name: selector, range: '*' }
+  }
+
+  return { name: selector.substring(0, atIndex), range: selector.substring(atIndex + 1).replace(/^npm:/, '') || '*' }
+}
+
+function splitYarnSelector(selector: string): string[] {
+  const parts = selector.split('/')
+  const segments: string[] = []
+
+  for (let i = 0; i < parts.length; i++) {
+    if (parts[i].startsWith('@') && i + 1 < parts.length) {
+      segments.push(`${parts[i]}/${parts[i + 1]}`)
+      i++
+    } else {
+      segments.push(parts[i])
+    }
+  }
+
+  // A leading `**` matches anywhere, like no parent at all
+  while (segments[0] === '**') {
+    segments.shift()
+  }
+  return segments
+}
+
+// biome-ignore lint/suspicious/noExplicitAny: <json>
+function isRecord(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
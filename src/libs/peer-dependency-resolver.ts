@@ -0,0 +1,105 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { satisfies, validRange } from 'semver'
+import type { InstallLocation, PeerDependencyIssue, PeerDependencyReport, PeerResolution } from '@/types'
+
+export class PeerDependencyResolver {
+  private readonly installLocations: InstallLocation[]
+  private readonly locationsByPath: Map<string, InstallLocation>
+
+  constructor(installLocations: InstallLocation[]) {
+    this.installLocations = installLocations
+    this.locationsByPath = new Map(installLocations.map((location) => [location.path, location]))
+  }
+
+  resolve(): PeerDependencyReport {
+    const resolutions: PeerResolution[] = []
+    const resolvedRealPaths = new Set<string>()
+
+    for (const location of this.installLocations) {
+      // Several links to one folder resolve their peers identically
+      if (resolvedRealPaths.has(location.realPath)) continue
+      resolvedRealPaths.add(location.realPath)
+
+      const manifest = this.readManifest(location.realPath)
+      const peerDependencies: Record<string, string> = manifest?.peerDependencies || {}
+
+      for (const [peerName, range] of Object.entries(peerDependencies)) {
+        const provider = this.findProvider(location.realPath, peerName)
+
+        resolutions.push({
+          packageKey: location.packageKey,
+          installPath: location.path,
+          peerName,
+          range,
+          optional: !!manifest?.peerDependenciesMeta?.[peerName]?.optional,
+          providerKey: provider?.packageKey || null,
+          satisfied: !!provider && this.satisfiesRange(provider.version, range),
+        })
+      }
+    }
+
+    return { resolutions, issues: this.collectIssues(resolutions) }
+  }
+
+  // Peers are resolved like any other import: from the package's real folder upwards
+  private findProvider(fromPath: string, peerName: string): InstallLocation | null {
+    let currentDir = fromPath
+
+    while (true) {
+      const provider = this.locationsByPath.get(path.join(currentDir, 'node_modules', peerName))
+      if (provider) return provider
+
+      const parentDir = path.dirname(currentDir)
+      if (parentDir === currentDir) return null
+      currentDir = parentDir
+    }
+  }
+
+  private collectIssues(resolutions: PeerResolution[]): PeerDependencyIssue[] {
+    const resolutionsByPeer = new Map<string, PeerResolution[]>()
+    for (const resolution of resolutions) {
+      const peerKey = `${resolution.packageKey} ${resolution.peerName}`
+      resolutionsByPeer.set(peerKey, [...(resolutionsByPeer.get(peerKey) || []), resolution])
+    }
+
+    const issues: PeerDependencyIssue[] = []
+    for (const peerResolutions of resolutionsByPeer.values()) {
+      const { packageKey, peerName, range, optional } = peerResolutions[0]
+      const providers = Array.from(
+        new Set(peerResolutions.map((resolution) => resolution.providerKey).filter((key) => key !== null)),
+      )
+      const issue = { packageKey, peerName, range, providers }
+
+      if (!optional && peerResolutions.some((resolution) => !resolution.providerKey)) {
+        issues.push({ kind: 'missing', ...issue })
+      }
+
+      if (peerResolutions.some((resolution) => resolution.providerKey && !resolution.satisfied)) {
+        issues.push({ kind: 'incompatible', ...issue })
+      }
+
+      // One copy of the package sees a different peer than another
+      if (providers.length > 1) {
+        issues.push({ kind: 'multiple-providers', ...issue })
+      }
+    }
+
+    return issues
+  }
+
+  private satisfiesRange(version: string, range: string): boolean {
+    // Tags, URLs and protocols cannot be checked, so they never count as incompatible
+    if (!validRange(range)) return true
+    return satisfies(version, range, { includePrerelease: true })
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: <json>
+  private readManifest(packagePath: string): any {
+    try {
+      return JSON.parse(fs.readFileSync(path.join(packagePath, 'package.json'), 'utf8'))
+    } catch (_error) {
+      return null
+    }
+  }
+}
@@ -0,0 +1,213 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { parse } from 'yaml'
+import { getEdgeTypes, setEdgeType } from '@/libs/dependency-edge-types'
+import { getPackageKey } from '@/libs/utils'
+import type { DependencyEdgeType, ImporterDependency, InstalledPackage } from '@/types'
+
+type PnpmDependencyMap = Record<string, string | { specifier?: string; version: string }>
+
+interface PnpmImporter {
+  dependencies?: PnpmDependencyMap
+  devDependencies?: PnpmDependencyMap
+  optionalDependencies?: PnpmDependencyMap
+}
+
+interface PnpmResolution {
+  integrity?: string
+  tarball?: string
+  type?: string
+  repo?: string
+  commit?: string
+  directory?: string
+}
+
+interface PnpmPackageEntry {
+  // Only present for git and tarball packages whose key is not `name@version`
+  name?: string
+  version?: string
+  resolution?: PnpmResolution
+  dependencies?: Record<string, string>
+  optionalDependencies?: Record<string, string>
+  // Ranges only: the resolved peers are listed among the dependencies
+  peerDependencies?: Record<string, string>
+  peerDependenciesMeta?: Record<string, { optional?: boolean }>
+  bundledDependencies?: string[] | boolean
+}
+
+interface PnpmLockfile extends PnpmImporter {
+  lockfileVersion?: string | number
+  importers?: Record<string, PnpmImporter>
+  packages?: Record<string, PnpmPackageEntry>
+  // lockfile v9 moves resolved dependencies of each package into snapshots
+  snapshots?: Record<string, PnpmPackageEntry>
+}
+
+const importerSections = [
+  { section: 'dependencies', type: 'dependency' },
+  { section: 'devDependencies', type: 'devDependency' },
+  { section: 'optionalDependencies', type: 'optionalDependency' },
+] as const
+
+export class PnpmLockParser {
+  private readonly lockPath: string
+
+  constructor(lockPath: string) {
+    this.lockPath = lockPath
+  }
+
+  parse(
+    installedPackages: Map<string, InstalledPackage>,
+    dependencyTree: Map<string, Set<string>>,
+    importers: Map<string, ImporterDependency[]>,
+    declaredRanges?: Map<string, Map<string, string>>,
+    edgeTypes?: Map<string, Map<string, DependencyEdgeType>>,
+  ): void {
+    const content = fs.readFileSync(this.lockPath, 'utf8')
+    const lock = parse(content) as PnpmLockfile | null
+    if (!lock || typeof lock !== 'object') return
+
+    this.parseImporters(lock, importers, declaredRanges)
+
+    // v6 keeps dependencies inside packages, v9 splits them into snapshots
+    const entries = { ...lock.packages, ...lock.snapshots }
+
+    for (const [key, entry] of Object.entries(entries)) {
+      const parsedKey = this.parsePackageKey(key)
+      if (!parsedKey) continue
+
+      const packageName = entry?.name || parsedKey.name
+      const version = entry?.version || parsedKey.version
+      const packageKey = getPackageKey(packageName, version)
+
+      // Snapshots replace the package entry above, so its resolution and peer ranges are looked up separately
+      const packageEntry = lock.packages?.[key] || lock.packages?.[this.stripPeerSuffix(key)]
+      if (!installedPackages.has(packageKey)) {
+        installedPackages.set(packageKey, {
+          name: packageName,
+          version,
+          resolved: this.getResolved(packageEntry?.resolution),
+        })
+      }
+
+      const allDeps = {
+        ...entry?.dependencies,
+        ...entry?.optionalDependencies,
+      }
+      const types = getEdgeTypes({ ...packageEntry, ...entry })
+
+      if (Object.keys(allDeps).length > 0) {
+        const deps = dependencyTree.get(packageKey) || new Set<string>()
+        for (const [depName, depVersion] of Object.entries(allDeps)) {
+          const depKey = this.resolveDependencyKey(depName, depVersion)
+          if (depKey && depKey !== packageKey) {
+            deps.add(depKey)
+            setEdgeType(edgeTypes, packageKey, depKey, types.get(depName))
+          }
+        }
+        dependencyTree.set(packageKey, deps)
+      }
+    }
+  }
+
+  private parseImporters(
+    lock: PnpmLockfile,
+    importers: Map<string, ImporterDependency[]>,
+    declaredRanges?: Map<string, Map<string, string>>,
+  ): void {
+    const lockDir = path.dirname(this.lockPath)
+    // Single-project lockfiles keep the root importer at the top level
+    const lockImporters = lock.importers || { '.': lock }
+
+    for (const [importerPath, importer] of Object.entries(lockImporters)) {
+      const importerDir = path.join(lockDir, importerPath)
+      const dependencies = importers.get(importerDir) || []
+      // v6 and later lockfiles keep the manifest specifier next to the resolved version
+      const ranges = new Map<string, string>()
+
+      for (const { section, type } of importerSections) {
+        for (const [name, value] of Object.entries(importer?.[section] || {})) {
+          const rawVersion = typeof value === 'string' ? value : value?.version
+          if (!rawVersion) continue
+
+          dependencies.push({ name, ...this.parseImporterVersion(name, rawVersion), type })
+          if (typeof value !== 'string' && value?.specifier) ranges.set(name, value.specifier)
+        }
+      }
+
+      if (dependencies.length > 0) {
+        importers.set(importerDir, dependencies)
+      }
+
+      const manifest = this.readManifest(importerDir)
+      if (manifest?.name && ranges.size > 0) {
+        const packageKey = getPackageKey(manifest.name, manifest.version || '1.0.0')
+        declaredRanges?.set(packageKey, new Map([...(declaredRanges.get(packageKey) || []), ...ranges]))
+      }
+    }
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: <json>
+  private readManifest(importerDir: string): any {
+    try {
+      return JSON.parse(fs.readFileSync(path.join(importerDir, 'package.json'), 'utf8'))
+    } catch (_error) {
+      return null
+    }
+  }
+
+  // Keys look like `/name@1.0.0(peer@2.0.0)` (v6) or `name@1.0.0(peer@2.0.0)` (v9)
+  private parsePackageKey(key: string): { name: string; version: string } | null {
+    const cleaned = this.stripPeerSuffix(key).replace(/^\//, '')
+    const atIndex = cleaned.lastIndexOf('@')
+
+    if (atIndex > 0) {
+      return { name: cleaned.substring(0, atIndex), version: cleaned.substring(atIndex + 1) }
+    }
+
+    // Older lockfiles use `/name/1.0.0`
+    const slashIndex = cleaned.lastIndexOf('/')
+    if (slashIndex > 0) {
+      return { name: cleaned.substring(0, slashIndex), version: cleaned.substring(slashIndex + 1) }
+    }
+
+    return null
+  }
+
+  private resolveDependencyKey(name: string, version: string): string | null {
+    if (version.startsWith('link:') || version.startsWith('file:')) {
+      return null
+    }
+
+    const cleaned = this.stripPeerSuffix(version).replace(/^\//, '')
+    // Aliased dependencies point at the real `name@version` instead of a plain version
+    return cleaned.indexOf('@', 1) > 0 ? cleaned : getPackageKey(name, cleaned)
+  }
+
+  // Registry packages only carry an integrity hash; everything else records where it came from
+  private getResolved(resolution?: PnpmResolution): string | undefined {
+    if (resolution?.tarball) return resolution.tarball
+    if (resolution?.type === 'git' && resolution.repo) return `git+${resolution.repo}#${resolution.commit || ''}`
+    if (resolution?.directory) return `file:${resolution.directory}`
+    return undefined
+  }
+
+  private parseImporterVersion(name: string, version: string): Pick<ImporterDependency, 'version' | 'realName'> {
+    if (version.startsWith('link:') || version.startsWith('file:')) {
+      return { version }
+    }
+
+    const cleaned = this.stripPeerSuffix(version).replace(/^\//, '')
+    // Aliased dependencies resolve to the real `name@version` instead of a plain version
+    const atIndex = cleaned.lastIndexOf('@')
+    if (atIndex <= 0) return { version: cleaned }
+
+    const realName = cleaned.substring(0, atIndex)
+    return { version: cleaned.substring(atIndex + 1), realName: realName !== name ? realName : undefined }
+  }
+
+  private stripPeerSuffix(value: string): string {
+    const parenIndex = value.indexOf('(')
+    return parenIndex === -1 ? value : value.substring(0, parenIndex)
+  }
+}
@@ -0,0 +1,81 @@
+import * as path from 'node:path'
+import { satisfies, validRange } from 'semver'
+import { parseDependencySpecifier } from '@/libs/dependency-specifier'
+import { getPackageKey, parsePackageKey } from '@/libs/utils'
+import type { ImporterDependency, InstallLocation, PackageInfo, RangeViolation } from '@/types'
+
+const manifestSections = ['dependencies', 'devDependencies', 'optionalDependencies'] as const
+
+// Returns undefined for tags, URLs and local paths, which have no semver meaning
+export function satisfiesRange(version: string, range: string): boolean | undefined {
+  const specifier = parseDependencySpecifier(range)
+  if (!['npm', 'alias', 'workspace'].includes(specifier.protocol)) return undefined
+
+  // Aliases keep only the range of the real package: `npm:other@^1.0.0`
+  const semverRange = specifier.range
+
+  // `workspace:^` and `workspace:~` take whatever version the workspace has
+  if (specifier.protocol === 'workspace' && ['^', '~', '*', ''].includes(semverRange)) return true
+
+  if (!validRange(semverRange)) return undefined
+  return satisfies(version, semverRange)
+}
+
+export function findRangeViolations(options: {
+  packages: PackageInfo[]
+  importers: Map<string, ImporterDependency[]>
+  dependencyTree: Map<string, Set<string>>
+  declaredRanges: Map<string, Map<string, string>>
+  installLocations: InstallLocation[]
+}): RangeViolation[] {
+  const violations = new Map<string, RangeViolation>()
+
+  const addViolation = (packageKey: string, dependentKey: string, range: string) => {
+    const { name, version } = parsePackageKey(packageKey)
+    const violation = violations.get(packageKey) || { packageKey, name, version, dependents: [] }
+    violation.dependents.push({ dependentKey, range })
+    violations.set(packageKey, violation)
+  }
+
+  for (const [packageKey, deps] of options.dependencyTree.entries()) {
+    const ranges = options.declaredRanges.get(packageKey)
+    if (!ranges) continue
+
+    for (const depKey of deps) {
+      const { name, version } = parsePackageKey(depKey)
+      const range = ranges.get(name)
+      if (range && satisfiesRange(version, range) === false) {
+        addViolation(depKey, packageKey, range)
+      }
+    }
+  }
+
+  // Manifests resolve through the lockfile importers, or through their own node_modules without a lockfile
+  const hoistedVersions = new Map(
+    options.installLocations
+      .filter((location) => location.isHoisted)
+      .map((location) => [location.path, location.version]),
+  )
+
+  for (const pkg of options.packages) {
+    const pkgDir = path.dirname(pkg.path)
+    const importerDependencies = new Map(
+      (options.importers.get(pkgDir) || []).map((dependency) => [dependency.name, dependency]),
+    )
+    const dependentKey = getPackageKey(pkg.name, pkg.version)
+
+    for (const section of manifestSections) {
+      for (const [name, range] of Object.entries(pkg[section])) {
+        const dependency = importerDependencies.get(name)
+        const version = dependency?.version || hoistedVersions.get(path.resolve(pkgDir, 'node_modules', name)) || null
+        if (!version || version.startsWith('link:') || version.startsWith('file:')) continue
+
+        if (satisfiesRange(version, range) === false) {
+          addViolation(getPackageKey(dependency?.realName || name, version), dependentKey, range)
+        }
+      }
+    }
+  }
+
+  return Array.from(violations.values())
+}
@@ -0,0 +1,228 @@
+import type { DependencyEdge, RetainedSizeReport } from '@/types'
+
+const ROOT = 0
+
+export class RetainedSizeAnalyzer {
+  private readonly dependencies: Map<string, DependencyEdge[]>
+  private readonly localKeys: Set<string>
+  private readonly getSize: (packageKey: string) => number
+  private readonly getWorkspace: (packageKey: string) => string
+  private readonly exclusiveSizes = new Map<string, number>()
+  private readonly dominatedCounts = new Map<string, number>()
+  private readonly transitiveSizes = new Map<string, number>()
+  // Bytes only reachable through each workspace's declarations of a direct dependency
+  private readonly declarationSizes = new Map<string, Map<string, number>>()
+  // The dominator tree is built on first use, transitive sizes do not need it
+  private hasDominators = false
+
+  constructor(options: {
+    dependencies: Map<string, DependencyEdge[]>
+    localKeys: Set<string>
+    getSize: (packageKey: string) => number
+    getWorkspace: (packageKey: string) => string
+  }) {
+    this.dependencies = options.dependencies
+    this.localKeys = options.localKeys
+    this.getSize = options.getSize
+    this.getWorkspace = options.getWorkspace
+  }
+
+  // Bytes that would be freed if nothing depended on the package any more
+  getExclusiveSize(packageKey: string): number {
+    this.computeExclusiveSizes()
+    return this.exclusiveSizes.get(packageKey) || 0
+  }
+
+  // Packages every path from the local packages to them runs through this one
+  getDominatedCount(packageKey: string): number {
+    this.computeExclusiveSizes()
+    return this.dominatedCounts.get(packageKey) || 0
+  }
+
+  // The package and everything it reaches, each package counted once however many paths lead to it
+  getTransitiveSize(packageKey: string): number {
+    const cached = this.transitiveSizes.get(packageKey)
+    if (cached !== undefined) return cached
+
+    const reached = new Set([packageKey])
+    const queue = [packageKey]
+    let size = 0
+
+    for (let index = 0; index < queue.length; index++) {
+      size += this.getSize(queue[index])
+
+      for (const { depKey } of this.dependencies.get(queue[index]) || []) {
+        if (reached.has(depKey)) continue
+
+        reached.add(depKey)
+        queue.push(depKey)
+      }
+    }
+
+    this.transitiveSizes.set(packageKey, size)
+    return size
+  }
+
+  buildReport(limit = 20): RetainedSizeReport {
+    this.computeExclusiveSizes()
+    const workspaces = Array.from(this.declarationSizes.entries())
+      .map(([workspace, declarations]) => ({
+        workspace,
+        dependencies: Array.from(declarations.entries())
+          .map(([packageKey, exclusiveSize]) => ({
+            packageKey,
+            exclusiveSize,
+            transitiveSize: this.getTransitiveSize(packageKey),
+          }))
+          .sort((a, b) => b.exclusiveSize - a.exclusiveSize || a.packageKey.localeCompare(b.packageKey))
+          .slice(0, limit),
+      }))
+      .sort((a, b) => a.workspace.localeCompare(b.workspace))
+
+    return { workspaces }
+  }
+
+  // Dominator tree over the deduplicated graph, rooted at a virtual node above every local package.
+  // Each workspace's declarations of a dependency get a node of their own between the workspace's packages
+  // and the dependency, so the bytes it dominates are what dropping the dependency from that workspace frees
+  private computeExclusiveSizes(): void {
+    if (this.hasDominators) return
+    this.hasDominators = true
+
+    const packageKeys: Array<string | null> = [null]
+    const declarations: Array<{ workspace: string; packageKey: string } | null> = [null]
+    const indices = new Map<string, number>()
+    const successors: number[][] = [[]]
+
+    const addNode = (id: string, packageKey: string | null, declaration: (typeof declarations)[number]): number => {
+      let index = indices.get(id)
+      if (index === undefined) {
+        index = packageKeys.length
+        indices.set(id, index)
+        packageKeys.push(packageKey)
+        declarations.push(declaration)
+        successors.push([])
+      }
+      return index
+    }
+
+    for (const localKey of this.localKeys) {
+      successors[ROOT].push(addNode(localKey, localKey, null))
+    }
+
+    const queue = Array.from(this.localKeys)
+    const reached = new Set(queue)
+    for (let index = 0; index < queue.length; index++) {
+      const packageKey = queue[index]
+      const source = addNode(packageKey, packageKey, null)
+      const isLocal = this.localKeys.has(packageKey)
+
+      for (const { depKey } of this.dependencies.get(packageKey) || []) {
+        const target = addNode(depKey, depKey, null)
+        if (!reached.has(depKey)) {
+          reached.add(depKey)
+          queue.push(depKey)
+        }
+
+        // Local packages stay installed whoever depends on them
+        if (this.localKeys.has(depKey)) continue
+
+        if (isLocal) {
+          const workspace = this.getWorkspace(packageKey)
+          const declaration = addNode(`${workspace}\0${depKey}`, null, { workspace, packageKey: depKey })
+          successors[source].push(declaration)
+          successors[declaration].push(target)
+        } else {
+          successors[source].push(target)
+        }
+      }
+    }
+
+    const dominators = this.findImmediateDominators(successors)
+
+    const exclusiveSizes = packageKeys.map((packageKey) => (packageKey ? this.getSize(packageKey) : 0))
+    const dominatedCounts = packageKeys.map(() => 0)
+    for (let index = dominators.order.length - 1; index > 0; index--) {
+      const node = dominators.order[index]
+      exclusiveSizes[dominators.idom[node]] += exclusiveSizes[node]
+      dominatedCounts[dominators.idom[node]] += dominatedCounts[node] + (packageKeys[node] ? 1 : 0)
+    }
+
+    packageKeys.forEach((packageKey, node) => {
+      const declaration = declarations[node]
+      if (packageKey) {
+        this.exclusiveSizes.set(packageKey, exclusiveSizes[node])
+        this.dominatedCounts.set(packageKey, dominatedCounts[node])
+      }
+      if (!declaration) return
+
+      const sizes = this.declarationSizes.get(declaration.workspace) || new Map<string, number>()
+      sizes.set(declaration.packageKey, exclusiveSizes[node])
+      this.declarationSizes.set(declaration.workspace, sizes)
+    })
+  }
+
+  // Cooper, Harvey and Kennedy's iterative algorithm. `order` lists the nodes in reverse postorder, root first
+  private findImmediateDominators(successors: number[][]): { idom: number[]; order: number[] } {
+    const postorder: number[] = []
+    const visited = new Uint8Array(successors.length)
+    const stack: Array<{ node: number; next: number }> = [{ node: ROOT, next: 0 }]
+    visited[ROOT] = 1
+
+    // Iterative DFS, so deep dependency chains cannot overflow the stack
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1]
+      const successor = successors[frame.node][frame.next++]
+
+      if (successor === undefined) {
+        postorder.push(frame.node)
+        stack.pop()
+      } else if (!visited[successor]) {
+        visited[successor] = 1
+        stack.push({ node: successor, next: 0 })
+      }
+    }
+
+    const order = postorder.reverse()
+    const rank = new Int32Array(successors.length).fill(-1)
+    order.forEach((node, index) => {
+      rank[node] = index
+    })
+
+    const predecessors: number[][] = successors.map(() => [])
+    successors.forEach((targets, source) => {
+      for (const target of targets) predecessors[target].push(source)
+    })
+
+    const idom = new Int32Array(successors.length).fill(-1)
+    idom[ROOT] = ROOT
+
+    const intersect = (a: number, b: number): number => {
+      while (a !== b) {
+        while (rank[a] > rank[b]) a = idom[a]
+        while (rank[b] > rank[a]) b = idom[b]
+      }
+      return a
+    }
+
+    let changed = true
+    while (changed) {
+      changed = false
+
+      for (const node of order.slice(1)) {
+        let dominator = -1
+        for (const predecessor of predecessors[node]) {
+          if (idom[predecessor] === -1) continue
+          dominator = dominator === -1 ? predecessor : intersect(predecessor, dominator)
+        }
+
+        if (dominator !== idom[node]) {
+          idom[node] = dominator
+          changed = true
+        }
+      }
+    }
+
+    return { idom: Array.from(idom), order }
+  }
+}
@@ -0,0 +1,131 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { parse } from 'yaml'
+import { isLocalSpecifier, parseDependencySpecifier } from '@/libs/dependency-specifier'
+import type { DependencySource } from '@/types'
+
+const defaultRegistryHost = 'registry.npmjs.org'
+
+const gitResolvedPattern =
+  /^(git\+[a-z]+:|git:\/\/|github:|gitlab:|bitbucket:)|codeload\.github\.com|#commit=|\.git(#|$)/i
+
+export class SourceClassifier {
+  private readonly rootPath: string
+  private defaultRegistry = defaultRegistryHost
+  private readonly scopedRegistries = new Map<string, string>()
+
+  constructor(rootPath: string) {
+    this.rootPath = rootPath
+    this.readNpmrc()
+    this.readYarnrc()
+  }
+
+  classify(options: { name: string; resolved?: string; realName?: string; specifier?: string }): DependencySource {
+    const specifier = options.specifier ? parseDependencySpecifier(options.specifier) : null
+    if (specifier && isLocalSpecifier(specifier)) {
+      return { kind: 'local', resolved: specifier.raw }
+    }
+
+    const realName = specifier?.protocol === 'alias' ? specifier.name : options.realName
+    const resolved = options.resolved || (specifier && specifier.protocol !== 'npm' ? specifier.raw : undefined)
+
+    if (specifier?.protocol === 'git' || (resolved && gitResolvedPattern.test(resolved))) {
+      return { kind: 'git', realName, resolved }
+    }
+
+    if (resolved && /^(file|link|portal|workspace):/.test(resolved)) {
+      const isTarball = /\.(tgz|tar\.gz|tar)$/i.test(resolved)
+      return { kind: isTarball ? 'tarball' : 'local', realName, resolved }
+    }
+
+    // Registry tarballs live under `<registry>/<name>/-/<file>.tgz`
+    const url = resolved ? this.parseUrl(resolved) : null
+    if (specifier?.protocol === 'tarball' || (url && !url.pathname.includes('/-/'))) {
+      return { kind: 'tarball', realName, resolved }
+    }
+
+    const packageName = realName || options.name
+    return {
+      kind: realName && realName !== options.name ? 'alias' : 'registry',
+      realName,
+      registryHost: url?.host || this.getRegistryHost(packageName),
+      resolved,
+    }
+  }
+
+  private getRegistryHost(packageName: string): string {
+    if (packageName.startsWith('@')) {
+      const scoped = this.scopedRegistries.get(packageName.split('/')[0])
+      if (scoped) return scoped
+    }
+    return this.defaultRegistry
+  }
+
+  // `registry=https://...` and `@scope:registry=https://...`
+  private readNpmrc(): void {
+    const content = this.readFile('.npmrc')
+    if (!content) return
+
+    for (const line of content.split('\n')) {
+      const match = line.trim().match(/^(@[^:]+:)?registry\s*=\s*(\S+)$/)
+      const host = match ? this.getHost(match[2]) : null
+      if (!match || !host) continue
+
+      if (match[1]) {
+        this.scopedRegistries.set(match[1].slice(0, -1), host)
+      } else {
+        this.defaultRegistry = host
+      }
+    }
+  }
+
+  private readYarnrc(): void {
+    // Yarn classic: `registry "https://..."`
+    const classicMatch = this.readFile('.yarnrc')?.match(/^registry\s+"?([^"\s]+)"?/m)
+    const classicHost = classicMatch ? this.getHost(classicMatch[1]) : null
+    if (classicHost) {
+      this.defaultRegistry = classicHost
+    }
+
+    const berryContent = this.readFile('.yarnrc.yml')
+    if (!berryContent) return
+
+    try {
+      const yarnrc = parse(berryContent)
+      const host = this.getHost(yarnrc?.npmRegistryServer)
+      if (host) {
+        this.defaultRegistry = host
+      }
+
+      for (const [scope, settings] of Object.entries(yarnrc?.npmScopes || {})) {
+        const scopedHost = this.getHost((settings as { npmRegistryServer?: string })?.npmRegistryServer)
+        if (scopedHost) {
+          this.scopedRegistries.set(`@${scope.replace(/^@/, '')}`, scopedHost)
+        }
+      }
+    } catch (error) {
+      console.warn(`⚠️ Parse error ${path.join(this.rootPath, '.yarnrc.yml')}:`, error)
+    }
+  }
+
+  private getHost(url: unknown): string | null {
+    return typeof url === 'string' ? this.parseUrl(url)?.host || null : null
+  }
+
+  private parseUrl(value: string): URL | null {
+    if (!/^https?:\/\//.test(value)) return null
+    try {
+      return new URL(value)
+    } catch (_error) {
+      return null
+    }
+  }
+
+  private readFile(fileName: string): string | null {
+    try {
+      return fs.readFileSync(path.join(this.rootPath, fileName), 'utf8')
+    } catch (_error) {
+      return null
+    }
+  }
+}
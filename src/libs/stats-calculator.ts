@@ -1,16 +1,32 @@
 import * as fs from 'node:fs'
 import * as path from 'node:path'
-import { glob } from 'fast-glob'
-import { formatSize } from '@/libs/utils'
-import type { PackageStats, ParsedData, ProjectStats } from '@/types'
+import { formatSize, getPackageKey, parsePackageKey } from '@/libs/utils'
+import type { AnalysisOptions, AnalysisProgress, PackageStats, ParsedData, ProjectStats } from '@/types'
+import type { AnalysisCache } from './analysis-cache'
+
+const progressInterval = 50
+
+interface PackageSizeEntry {
+  stamp: string
+  size: number
+}
 
 export class StatsCalculator {
   private readonly rootPath: string
   private parsedData: ParsedData
-
-  constructor(rootPath: string, parsedData: ParsedData) {
+  private readonly options: AnalysisOptions
+  private readonly cache: AnalysisCache | null
+
+  constructor(
+    rootPath: string,
+    parsedData: ParsedData,
+    options: AnalysisOptions = {},
+    cache: AnalysisCache | null = null,
+  ) {
     this.rootPath = rootPath
     this.parsedData = parsedData
+    this.options = options
+    this.cache = cache
   }
 
   async calculateStats(): Promise<{
@@ -27,69 +43,62 @@ export class StatsCalculator {
     }
   }
 
-  private async calculatePackageSizes(): Promise<void> {
-    const nodeModulesPaths = await glob('**/node_modules', {
-      cwd: this.rootPath,
-      ignore: ['**/node_modules/**/node_modules/**'],
-    })
-
-    if (nodeModulesPaths.length === 0) {
-      const rootNodeModules = path.join(this.rootPath, 'node_modules')
-      if (fs.existsSync(rootNodeModules)) {
-        await this.calculateNodeModulesSizes(rootNodeModules)
-      }
-    } else {
-      for (const nodeModulesPath of nodeModulesPaths) {
-        const fullNodeModulesPath = path.join(this.rootPath, nodeModulesPath)
-        await this.calculateNodeModulesSizes(fullNodeModulesPath)
+  // Sizes alone, without the per-package and project stats built on them. `packageKeys` limits them to those packages
+  async calculatePackageSizes(packageKeys?: Set<string>): Promise<void> {
+    const measuredPaths = new Set<string>()
+    const cachedSizes = this.cache?.read<Map<string, PackageSizeEntry>>('package-sizes', this.rootPath) || new Map()
+    const sizes = new Map<string, PackageSizeEntry>()
+    const locations = this.parsedData.installLocations.filter(
+      (location) => !packageKeys || packageKeys.has(location.packageKey),
+    )
+    const total = new Set(locations.map((location) => location.realPath)).size
+
+    // Linked installs share one folder on disk, so each real path is measured once
+    for (const location of locations) {
+      if (measuredPaths.has(location.realPath)) continue
+      measuredPaths.add(location.realPath)
+
+      if (measuredPaths.size % progressInterval === 1 || measuredPaths.size === total) {
+        await this.reportProgress({
+          phase: 'sizes',
+          message: `Measuring ${location.name}`,
+          current: measuredPaths.size,
+          total,
+        })
       }
-    }
-
-    await this.calculateRootPackagesSizes()
-  }
 
-  private async calculateNodeModulesSizes(nodeModulesPath: string): Promise<void> {
-    try {
-      if (!fs.existsSync(nodeModulesPath)) return
+      const size = await this.getCachedPackageSize(location.realPath, cachedSizes, sizes)
+      this.updatePackageSize(location.name, location.version, size)
+    }
 
-      const packages = fs.readdirSync(nodeModulesPath, { withFileTypes: true })
+    // A partial run keeps the cached sizes of the packages it skipped
+    this.cache?.write('package-sizes', this.rootPath, packageKeys ? new Map([...cachedSizes, ...sizes]) : sizes)
 
-      for (const pkg of packages) {
-        if (pkg.isDirectory() && !pkg.name.startsWith('.')) {
-          const pkgPath = path.join(nodeModulesPath, pkg.name)
+    await this.calculateRootPackagesSizes(packageKeys)
+  }
 
-          if (pkg.name.startsWith('@')) {
-            // Scoped packages
-            await this.calculateScopedPackagesSizes(pkgPath, pkg.name)
-          } else {
-            // Regular packages
-            const size = await this.calculatePackageSize(pkgPath)
-            this.updatePackageSize(pkg.name, size)
-          }
-        }
-      }
-    } catch (error) {
-      console.warn(`⚠️ Error node_modules ${nodeModulesPath}:`, error)
+  // Package managers replace a folder when they change it, so its mtime and its manifest's tell whether to re-measure
+  private async getCachedPackageSize(
+    packagePath: string,
+    cachedSizes: Map<string, PackageSizeEntry>,
+    sizes: Map<string, PackageSizeEntry>,
+  ): Promise<number> {
+    if (!this.cache) {
+      return await this.calculatePackageSize(packagePath)
     }
-  }
 
-  private async calculateScopedPackagesSizes(scopePath: string, scopeName: string): Promise<void> {
-    try {
-      if (!fs.existsSync(scopePath)) return
+    const stamp = `${this.cache.getMtime(packagePath)}:${this.cache.getMtime(path.join(packagePath, 'package.json'))}`
+    const cachedSize = cachedSizes.get(packagePath)
+    const size = cachedSize?.stamp === stamp ? cachedSize.size : await this.calculatePackageSize(packagePath)
+    sizes.set(packagePath, { stamp, size })
 
-      const scopedPackages = fs.readdirSync(scopePath, { withFileTypes: true })
+    return size
+  }
 
-      for (const scopedPkg of scopedPackages) {
-        if (scopedPkg.isDirectory()) {
-          const scopedPkgPath = path.join(scopePath, scopedPkg.name)
-          const fullName = `${scopeName}/${scopedPkg.name}`
-          const size = await this.calculatePackageSize(scopedPkgPath)
-          this.updatePackageSize(fullName, size)
-        }
-      }
-    } catch (error) {
-      console.warn(`⚠️ Error scoped packages in ${scopePath}:`, error)
-    }
+  private async reportProgress(progress: AnalysisProgress): Promise<void> {
+    this.options.signal?.throwIfAborted()
+    this.options.onProgress?.(progress)
+    await new Promise((resolve) => setImmediate(resolve))
   }
 
   private async calculatePackageSize(packagePath: string): Promise<number> {
@@ -291,24 +300,28 @@ export class StatsCalculator {
     }
   }
 
-  private async calculateRootPackagesSizes(): Promise<void> {
+  private async calculateRootPackagesSizes(packageKeys?: Set<string>): Promise<void> {
     for (const pkg of this.parsedData.packages) {
+      if (packageKeys && !packageKeys.has(getPackageKey(pkg.name, pkg.version))) continue
+
       const pkgDir = path.dirname(pkg.path)
       const size = await this.getSourceCodeSize(pkgDir)
-      this.updatePackageSize(pkg.name, size)
+      this.updatePackageSize(pkg.name, pkg.version, size)
     }
   }
 
-  private updatePackageSize(packageName: string, size: number): void {
-    const existing = this.parsedData.installedPackages.get(packageName)
+  private updatePackageSize(packageName: string, version: string, size: number): void {
+    const packageKey = getPackageKey(packageName, version)
+    const existing = this.parsedData.installedPackages.get(packageKey)
     if (existing) {
-      this.parsedData.installedPackages.set(packageName, {
+      this.parsedData.installedPackages.set(packageKey, {
         ...existing,
         size,
       })
     } else {
-      this.parsedData.installedPackages.set(packageName, {
-        version: '1.0.0',
+      this.parsedData.installedPackages.set(packageKey, {
+        name: packageName,
+        version,
         size,
       })
     }
@@ -349,29 +362,29 @@ export class StatsCalculator {
 
   private buildPackageStats(): Map<string, PackageStats> {
     const packageStats = new Map<string, PackageStats>()
-    const allPackageNames = new Set<string>()
+    const allPackageKeys = new Set<string>()
 
-    this.parsedData.packages.forEach((pkg) => allPackageNames.add(pkg.name))
-    this.parsedData.installedPackages.forEach((_, name) => allPackageNames.add(name))
-    this.parsedData.dependencyTree.forEach((deps, name) => {
-      allPackageNames.add(name)
-      deps.forEach((dep) => allPackageNames.add(dep))
+    this.parsedData.packages.forEach((pkg) => allPackageKeys.add(getPackageKey(pkg.name, pkg.version)))
+    this.parsedData.installedPackages.forEach((_, key) => allPackageKeys.add(key))
+    this.parsedData.dependencyTree.forEach((deps, key) => {
+      allPackageKeys.add(key)
+      deps.forEach((dep) => allPackageKeys.add(dep))
     })
 
-    for (const packageName of allPackageNames) {
-      const installedInfo = this.parsedData.installedPackages.get(packageName)
+    for (const packageKey of allPackageKeys) {
+      const installedInfo = this.parsedData.installedPackages.get(packageKey)
       const isInstalled = installedInfo !== undefined
       const size = installedInfo?.size || 0
-      const version = installedInfo?.version || '1.0.0'
+      const { name, version } = installedInfo || parsePackageKey(packageKey)
 
-      const directDependencies = Array.from(this.parsedData.dependencyTree.get(packageName) || [])
+      const directDependencies = Array.from(this.parsedData.dependencyTree.get(packageKey) || [])
 
-      const allDependencies = this.getAllDependencies(packageName)
+      const allDependencies = this.getAllDependencies(packageKey)
 
-      const dependentCount = this.countDependents(packageName)
+      const dependentCount = this.countDependents(packageKey)
 
-      packageStats.set(packageName, {
-        name: packageName,
+      packageStats.set(packageKey, {
+        name,
         version,
         size,
         formattedSize: formatSize(size),
@@ -386,11 +399,11 @@ export class StatsCalculator {
     return packageStats
   }
 
-  private getAllDependencies(packageName: string, visited = new Set<string>()): string[] {
-    if (visited.has(packageName)) return []
-    visited.add(packageName)
+  private getAllDependencies(packageKey: string, visited = new Set<string>()): string[] {
+    if (visited.has(packageKey)) return []
+    visited.add(packageKey)
 
-    const directDeps = this.parsedData.dependencyTree.get(packageName) || new Set()
+    const directDeps = this.parsedData.dependencyTree.get(packageKey) || new Set()
     const allDeps = new Set(directDeps)
 
     for (const dep of directDeps) {
@@ -401,10 +414,10 @@ export class StatsCalculator {
     return Array.from(allDeps)
   }
 
-  private countDependents(packageName: string): number {
+  private countDependents(packageKey: string): number {
     let count = 0
     for (const [, deps] of this.parsedData.dependencyTree.entries()) {
-      if (deps.has(packageName)) {
+      if (deps.has(packageKey)) {
         count++
       }
     }
@@ -421,7 +434,7 @@ export class StatsCalculator {
     const packageLevels = this.calculateDependencyLevels()
     let maxLevel = 0
 
-    for (const [packageName, stats] of packageStats.entries()) {
+    for (const [packageKey, stats] of packageStats.entries()) {
       totalSize += stats.size
 
       if (stats.isInstalled) {
@@ -430,7 +443,7 @@ export class StatsCalculator {
         missingCount++
       }
 
-      const level = packageLevels.get(packageName) || 0
+      const level = packageLevels.get(packageKey) || 0
       maxLevel = Math.max(maxLevel, level)
       levelDistribution.set(level, (levelDistribution.get(level) || 0) + 1)
     }
@@ -460,17 +473,18 @@ export class StatsCalculator {
 
   private calculateDependencyLevels(): Map<string, number> {
     const levels = new Map<string, number>()
-    const queue: { packageName: string; level: number }[] = []
+    const queue: { packageKey: string; level: number }[] = []
 
     for (const pkg of this.parsedData.packages) {
-      levels.set(pkg.name, 0)
-      queue.push({ packageName: pkg.name, level: 0 })
+      const packageKey = getPackageKey(pkg.name, pkg.version)
+      levels.set(packageKey, 0)
+      queue.push({ packageKey, level: 0 })
     }
 
     while (queue.length > 0) {
       // biome-ignore lint/style/noNonNullAssertion: <test>
-      const { packageName, level } = queue.shift()!
-      const deps = this.parsedData.dependencyTree.get(packageName)
+      const { packageKey, level } = queue.shift()!
+      const deps = this.parsedData.dependencyTree.get(packageKey)
 
       if (deps) {
         for (const dep of deps) {
@@ -479,7 +493,7 @@ export class StatsCalculator {
 
           if (currentLevel === undefined || newLevel < currentLevel) {
             levels.set(dep, newLevel)
-            queue.push({ packageName: dep, level: newLevel })
+            queue.push({ packageKey: dep, level: newLevel })
           }
         }
       }
@@ -7,6 +7,19 @@ export function getSourceAndTarget(link: LinkDatum) {
   return { sourceId, targetId }
 }
 
+export function getPackageKey(name: string, version: string): string {
+  return `${name}@${version}`
+}
+
+export function parsePackageKey(key: string): { name: string; version: string } {
+  // Skip the leading `@` of scoped names
+  const atIndex = key.indexOf('@', 1)
+  if (atIndex === -1) {
+    return { name: key, version: '' }
+  }
+  return { name: key.substring(0, atIndex), version: key.substring(atIndex + 1) }
+}
+
 export function formatSize(bytes: number): string {
   if (bytes === 0) return '0 B'
   const k = 1024
@@ -14,3 +27,63 @@ export function formatSize(bytes: number): string {
   const i = Math.floor(Math.log(bytes) / Math.log(k))
   return `${parseFloat((bytes / k ** i).toFixed(1))} ${sizes[i]}`
 }
+
+// Parses JSON with comments and trailing commas, as used by bun.lock and rush.json
+// biome-ignore lint/suspicious/noExplicitAny: <json>
+export function parseJsonc(content: string): any {
+  return JSON.parse(removeTrailingCommas(stripJsonComments(content)))
+}
+
+// Calls `onChar` for every character outside string literals and copies string literals as they are
+function scanJson(content: string, onChar: (char: string, index: number) => number | string): string {
+  let result = ''
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+
+    if (char === '"') {
+      let end = i + 1
+      while (end < content.length && content[end] !== '"') {
+        end += content[end] === '\\' ? 2 : 1
+      }
+      result += content.substring(i, end + 1)
+      i = end
+      continue
+    }
+
+    // A number skips ahead to that index, a string is appended
+    const output = onChar(char, i)
+    if (typeof output === 'number') {
+      i = output
+    } else {
+      result += output
+    }
+  }
+
+  return result
+}
+
+function stripJsonComments(content: string): string {
+  return scanJson(content, (char, i) => {
+    if (char === '/' && content[i + 1] === '/') {
+      const end = content.indexOf('\n', i)
+      return end === -1 ? content.length : end - 1
+    }
+    if (char === '/' && content[i + 1] === '*') {
+      const end = content.indexOf('*/', i + 2)
+      return end === -1 ? content.length : end + 1
+    }
+    return char
+  })
+}
+
+// Runs after comments are gone, so only whitespace can sit between a comma and the closing bracket
+function removeTrailingCommas(content: string): string {
+  return scanJson(content, (char, i) => {
+    if (char !== ',') return char
+
+    let next = i + 1
+    while (next < content.length && /\s/.test(content[next])) next++
+    return content[next] === '}' || content[next] === ']' ? '' : char
+  })
+}
@@ -0,0 +1,153 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { glob } from 'glob'
+import { parse } from 'yaml'
+import { parseJsonc } from '@/libs/utils'
+import type { PackageInfo, WorkspaceInfo } from '@/types'
+
+export class WorkspaceDetector {
+  private readonly rootPath: string
+  private readonly packages: PackageInfo[]
+  private readonly packagesByDir: Map<string, PackageInfo>
+
+  constructor(rootPath: string, packages: PackageInfo[]) {
+    this.rootPath = path.resolve(rootPath)
+    this.packages = packages
+    this.packagesByDir = new Map(packages.map((pkg) => [path.resolve(path.dirname(pkg.path)), pkg]))
+  }
+
+  async detect(): Promise<{ workspaces: WorkspaceInfo[]; unassignedPackages: PackageInfo[] }> {
+    const memberDirs = new Set<string>()
+
+    for (const rootDir of this.findWorkspaceRoots()) {
+      memberDirs.add(rootDir)
+
+      const patterns = this.readWorkspacePatterns(rootDir)
+      for (const memberDir of await this.expandPatterns(rootDir, patterns)) {
+        memberDirs.add(memberDir)
+      }
+
+      for (const projectDir of this.readRushProjects(rootDir)) {
+        memberDirs.add(projectDir)
+      }
+    }
+
+    // A project without any workspace declaration is its own single workspace
+    if (memberDirs.size === 0 && this.packagesByDir.has(this.rootPath)) {
+      memberDirs.add(this.rootPath)
+    }
+
+    const workspaces: WorkspaceInfo[] = []
+    const unassignedPackages: PackageInfo[] = []
+
+    for (const pkg of this.packages) {
+      const pkgDir = path.resolve(path.dirname(pkg.path))
+      if (memberDirs.has(pkgDir)) {
+        workspaces.push({ name: pkg.name, path: pkgDir, packages: [pkg.name] })
+      } else {
+        unassignedPackages.push(pkg)
+      }
+    }
+
+    return { workspaces, unassignedPackages }
+  }
+
+  private findWorkspaceRoots(): string[] {
+    const roots: string[] = []
+    // Rush repositories usually have no package.json next to rush.json
+    const candidateDirs = new Set([this.rootPath, ...this.packagesByDir.keys()])
+
+    for (const dir of candidateDirs) {
+      const manifest = this.readJson(path.join(dir, 'package.json'))
+      const isRoot =
+        !!manifest?.workspaces ||
+        fs.existsSync(path.join(dir, 'pnpm-workspace.yaml')) ||
+        fs.existsSync(path.join(dir, 'lerna.json')) ||
+        fs.existsSync(path.join(dir, 'rush.json'))
+
+      if (isRoot) {
+        roots.push(dir)
+      }
+    }
+
+    return roots
+  }
+
+  private readWorkspacePatterns(rootDir: string): string[] {
+    const patterns: string[] = []
+
+    // `workspaces` is either an array or `{ packages: [...], nohoist: [...] }`
+    const workspaces = this.readJson(path.join(rootDir, 'package.json'))?.workspaces
+    if (Array.isArray(workspaces)) {
+      patterns.push(...workspaces)
+    } else if (Array.isArray(workspaces?.packages)) {
+      patterns.push(...workspaces.packages)
+    }
+
+    const pnpmWorkspacePath = path.join(rootDir, 'pnpm-workspace.yaml')
+    if (fs.existsSync(pnpmWorkspacePath)) {
+      try {
+        const pnpmWorkspace = parse(fs.readFileSync(pnpmWorkspacePath, 'utf8'))
+        if (Array.isArray(pnpmWorkspace?.packages)) {
+          patterns.push(...pnpmWorkspace.packages)
+        }
+      } catch (error) {
+        console.warn(`⚠️ Parse error ${pnpmWorkspacePath}:`, error)
+      }
+    }
+
+    const lernaPath = path.join(rootDir, 'lerna.json')
+    if (fs.existsSync(lernaPath)) {
+      const lerna = this.readJson(lernaPath)
+      // Lerna falls back to `packages/*` when nothing is configured
+      patterns.push(...(Array.isArray(lerna?.packages) ? lerna.packages : ['packages/*']))
+    }
+
+    return patterns.filter((pattern) => typeof pattern === 'string')
+  }
+
+  private async expandPatterns(rootDir: string, patterns: string[]): Promise<string[]> {
+    const include = patterns.filter((pattern) => !pattern.startsWith('!'))
+    const exclude = patterns.filter((pattern) => pattern.startsWith('!')).map((pattern) => pattern.slice(1))
+    if (include.length === 0) return []
+
+    const manifests = await glob(
+      include.map((pattern) => path.posix.join(pattern, 'package.json')),
+      {
+        cwd: rootDir,
+        ignore: ['**/node_modules/**', ...exclude.map((pattern) => path.posix.join(pattern, 'package.json'))],
+      },
+    )
+
+    return manifests
+      .map((manifest) => path.join(rootDir, path.dirname(manifest)))
+      .filter((memberDir) => this.packagesByDir.has(memberDir))
+  }
+
+  private readRushProjects(rootDir: string): string[] {
+    const rushPath = path.join(rootDir, 'rush.json')
+    if (!fs.existsSync(rushPath)) return []
+
+    try {
+      const rush = parseJsonc(fs.readFileSync(rushPath, 'utf8'))
+      const projects: Array<{ projectFolder?: string }> = Array.isArray(rush?.projects) ? rush.projects : []
+
+      return projects
+        .filter((project) => typeof project.projectFolder === 'string')
+        .map((project) => path.join(rootDir, project.projectFolder as string))
+        .filter((projectDir) => this.packagesByDir.has(projectDir))
+    } catch (error) {
+      console.warn(`⚠️ Parse error ${rushPath}:`, error)
+      return []
+    }
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: <json>
+  private readJson(filePath: string): any {
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf8'))
+    } catch (_error) {
+      return null
+    }
+  }
+}
@@ -0,0 +1,219 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { maxSatisfying, validRange } from 'semver'
+import { parse } from 'yaml'
+import { getEdgeTypes, setEdgeType } from '@/libs/dependency-edge-types'
+import { getPackageKey } from '@/libs/utils'
+import type { DependencyEdgeType, ImporterDependency, InstalledPackage, LinkDatum } from '@/types'
+
+interface YarnBerryEntry {
+  version?: string
+  resolution?: string
+  dependencies?: Record<string, string>
+  dependenciesMeta?: Record<string, { optional?: boolean }>
+  peerDependencies?: Record<string, string>
+  peerDependenciesMeta?: Record<string, { optional?: boolean }>
+}
+
+export class YarnBerryLockParser {
+  private readonly lockPath: string
+
+  constructor(lockPath: string) {
+    this.lockPath = lockPath
+  }
+
+  static isBerryLockfile(content: string): boolean {
+    return /^__metadata:/m.test(content)
+  }
+
+  parse(
+    installedPackages: Map<string, InstalledPackage>,
+    dependencyTree: Map<string, Set<string>>,
+    importers: Map<string, ImporterDependency[]>,
+    declaredRanges?: Map<string, Map<string, string>>,
+    edgeTypes?: Map<string, Map<string, DependencyEdgeType>>,
+  ): void {
+    const content = fs.readFileSync(this.lockPath, 'utf8')
+    const lock = parse(content) as Record<string, YarnBerryEntry> | null
+    if (!lock || typeof lock !== 'object') return
+
+    const descriptors = new Map<string, YarnBerryEntry>()
+    const workspaces: Array<{ workspacePath: string; entry: YarnBerryEntry }> = []
+    const packageEntries: Array<{ key: string; entry: YarnBerryEntry }> = []
+
+    for (const [key, entry] of Object.entries(lock)) {
+      if (key === '__metadata' || !entry || typeof entry !== 'object') continue
+
+      // A single entry may be shared by several descriptors: "a@npm:^1.0.0, a@npm:^1.1.0"
+      for (const descriptor of key.split(',').map((d) => d.trim())) {
+        descriptors.set(descriptor, entry)
+      }
+
+      const workspacePath = this.getWorkspacePath(entry.resolution || key)
+      if (workspacePath !== null) {
+        workspaces.push({ workspacePath, entry })
+      } else {
+        packageEntries.push({ key, entry })
+      }
+    }
+
+    const versionsByName = new Map<string, string[]>()
+    for (const { key, entry } of packageEntries) {
+      const packageName = this.extractPackageName(key)
+      if (packageName && entry.version) {
+        versionsByName.set(packageName, [...(versionsByName.get(packageName) || []), entry.version])
+      }
+    }
+
+    for (const { key, entry } of packageEntries) {
+      const packageName = this.extractPackageName(key)
+      if (!packageName) continue
+
+      const version = entry.version || '1.0.0'
+      const packageKey = getPackageKey(packageName, version)
+      if (!installedPackages.has(packageKey)) {
+        installedPackages.set(packageKey, {
+          name: packageName,
+          version,
+          ...this.parseResolution(packageName, entry.resolution),
+        })
+      }
+
+      const dependencies = entry.dependencies || {}
+      const peerDependencies = entry.peerDependencies || {}
+      const types = getEdgeTypes(entry)
+      if (Object.keys(dependencies).length > 0 || Object.keys(peerDependencies).length > 0) {
+        const deps = dependencyTree.get(packageKey) || new Set<string>()
+        const ranges = declaredRanges?.get(packageKey) || new Map<string, string>()
+        for (const [depName, range] of Object.entries(dependencies)) {
+          ranges.set(depName, range)
+          const resolved = this.resolveDescriptor(depName, range, descriptors)
+          if (resolved && this.getWorkspacePath(resolved.resolution || '') !== null) continue
+
+          const depKey = getPackageKey(depName, resolved?.version || range)
+          if (depKey !== packageKey) {
+            deps.add(depKey)
+            setEdgeType(edgeTypes, packageKey, depKey, types.get(depName))
+          }
+        }
+
+        for (const [peerName, range] of Object.entries(peerDependencies)) {
+          if (!ranges.has(peerName)) ranges.set(peerName, range)
+          const version = this.resolvePeerVersion(peerName, range, descriptors, versionsByName)
+          const depKey = version ? getPackageKey(peerName, version) : null
+          if (depKey && depKey !== packageKey && !deps.has(depKey)) {
+            deps.add(depKey)
+            setEdgeType(edgeTypes, packageKey, depKey, types.get(peerName))
+          }
+        }
+        dependencyTree.set(packageKey, deps)
+        declaredRanges?.set(packageKey, ranges)
+      }
+    }
+
+    for (const { workspacePath, entry } of workspaces) {
+      this.parseWorkspace(workspacePath, entry, descriptors, importers)
+    }
+  }
+
+  private parseWorkspace(
+    workspacePath: string,
+    entry: YarnBerryEntry,
+    descriptors: Map<string, YarnBerryEntry>,
+    importers: Map<string, ImporterDependency[]>,
+  ): void {
+    const workspaceDir = path.join(path.dirname(this.lockPath), workspacePath)
+    const manifest = this.readManifest(workspaceDir)
+    const dependencies = importers.get(workspaceDir) || []
+
+    for (const [name, range] of Object.entries(entry.dependencies || {})) {
+      const resolved = this.resolveDescriptor(name, range, descriptors)
+      const workspaceTarget = resolved ? this.getWorkspacePath(resolved.resolution || '') : null
+
+      dependencies.push({
+        name,
+        version:
+          workspaceTarget !== null
+            ? `link:${path.relative(workspacePath, workspaceTarget) || '.'}`
+            : resolved?.version || range,
+        type: this.getImporterDependencyType(name, entry, manifest),
+      })
+    }
+
+    if (dependencies.length > 0) {
+      importers.set(workspaceDir, dependencies)
+    }
+  }
+
+  // Workspace entries carry dev dependencies too, so the manifest tells which section they came from
+  private getImporterDependencyType(
+    name: string,
+    entry: YarnBerryEntry,
+    // biome-ignore lint/suspicious/noExplicitAny: <json>
+    manifest: any,
+  ): LinkDatum['type'] {
+    if (manifest?.devDependencies?.[name]) return 'devDependency'
+    if (manifest?.optionalDependencies?.[name] || entry.dependenciesMeta?.[name]?.optional) {
+      return 'optionalDependency'
+    }
+    return 'dependency'
+  }
+
+  private resolveDescriptor(
+    name: string,
+    range: string,
+    descriptors: Map<string, YarnBerryEntry>,
+  ): YarnBerryEntry | undefined {
+    // Lockfiles before metadata v6 omit the default `npm:` protocol in dependency ranges
+    return descriptors.get(`${name}@${range}`) || descriptors.get(`${name}@npm:${range}`)
+  }
+
+  // Peers are resolved per dependent at install time, so the lockfile only has the range. Take the highest locked
+  // version that satisfies it; a peer no locked version satisfies is left out
+  private resolvePeerVersion(
+    name: string,
+    range: string,
+    descriptors: Map<string, YarnBerryEntry>,
+    versionsByName: Map<string, string[]>,
+  ): string | null {
+    const resolved = this.resolveDescriptor(name, range, descriptors)
+    if (resolved) {
+      return this.getWorkspacePath(resolved.resolution || '') === null ? resolved.version || null : null
+    }
+
+    const semverRange = range.replace(/^npm:/, '')
+    return validRange(semverRange) ? maxSatisfying(versionsByName.get(name) || [], semverRange) : null
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: <json>
+  private readManifest(workspaceDir: string): any {
+    try {
+      return JSON.parse(fs.readFileSync(path.join(workspaceDir, 'package.json'), 'utf8'))
+    } catch (_error) {
+      return null
+    }
+  }
+
+  // Resolutions are locators such as `real-name@npm:1.0.0` or `name@https://host/repo.git#commit=abc`
+  private parseResolution(packageName: string, resolution?: string): Pick<InstalledPackage, 'resolved' | 'realName'> {
+    if (!resolution) return {}
+
+    const atIndex = resolution.indexOf('@', 1)
+    if (atIndex < 0) return { resolved: resolution }
+
+    const realName = resolution.substring(0, atIndex)
+    return { resolved: resolution.substring(atIndex + 1), realName: realName !== packageName ? realName : undefined }
+  }
+
+  private getWorkspacePath(locator: string): string | null {
+    const match = locator.match(/^(?:@[^/]+\/)?[^@]+@workspace:(.+)$/)
+    return match ? match[1] : null
+  }
+
+  // Descriptors look like `name@npm:^1.0.0`, `@scope/name@patch:...` or `name@workspace:packages/name`
+  private extractPackageName(key: string): string | null {
+    const firstDescriptor = key.split(',')[0].trim()
+    const atIndex = firstDescriptor.indexOf('@', 1)
+    return atIndex > 0 ? firstDescriptor.substring(0, atIndex) : null
+  }
+}
@@ -0,0 +1,71 @@
+import * as fs from 'node:fs'
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { getConfigFromQuery } from '@/libs/config-loader'
+import { GraphBuilder } from '@/libs/graph-builder'
+import type { AnalysisStreamEvent } from '@/types'
+
+export const config = {
+  api: {
+    bodyParser: true,
+    // The graph is streamed as one NDJSON line and can exceed the default 4 MB warning
+    responseLimit: false,
+  },
+}
+
+// Same analysis as /api/analyze, streamed as NDJSON: progress events followed by a single result or error event
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const body = req.query as { folder: string; graphMode?: string; focusPackage?: string; dependencyScope?: string }
+  const projectPath = Array.isArray(body.folder) ? body.folder[0] : body.folder
+
+  if (!projectPath) {
+    return res.status(400).json({ error: 'Project path is required' })
+  }
+
+  if (!fs.existsSync(projectPath)) {
+    return res.status(400).json({ error: 'Project path does not exist' })
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'application/x-ndjson; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    // Keeps proxies and compression from buffering the progress events
+    'Content-Encoding': 'none',
+    'X-Accel-Buffering': 'no',
+  })
+
+  // The client cancels by closing the connection
+  const controller = new AbortController()
+  res.on('close', () => controller.abort())
+
+  const send = (event: AnalysisStreamEvent) => {
+    if (!res.writableEnded) {
+      res.write(`${JSON.stringify(event)}\n`)
+    }
+  }
+
+  try {
+    const analyzer = new GraphBuilder(projectPath, {
+      config: getConfigFromQuery(body),
+      signal: controller.signal,
+      onProgress: (progress) => send({ type: 'progress', ...progress }),
+    })
+    const graph = await analyzer.buildGraph()
+
+    send({ type: 'result', graph })
+  } catch (error) {
+    if (controller.signal.aborted) return
+
+    console.error('Analysis error:', error)
+    send({
+      type: 'error',
+      error: 'Failed to analyze project',
+      details: error instanceof Error ? error.message : String(error),
+    })
+  } finally {
+    res.end()
+  }
+}
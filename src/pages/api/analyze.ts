@@ -1,5 +1,6 @@
 import * as fs from 'node:fs'
 import type { NextApiRequest, NextApiResponse } from 'next'
+import { getConfigFromQuery } from '@/libs/config-loader'
 import { GraphBuilder } from '@/libs/graph-builder'
 
 export const config = {
@@ -13,7 +14,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return res.status(405).json({ error: 'Method not allowed' })
   }
 
-  const body = req.query as { folder: string }
+  const body = req.query as { folder: string; graphMode?: string; focusPackage?: string; dependencyScope?: string }
   try {
     const projectPath = Array.isArray(body.folder) ? body.folder[0] : body.folder
 
@@ -25,7 +26,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(400).json({ error: 'Project path does not exist' })
     }
 
-    const analyzer = new GraphBuilder(projectPath)
+    const analyzer = new GraphBuilder(projectPath, { config: getConfigFromQuery(body) })
     const graph = await analyzer.buildGraph()
 
     res.status(200).json(graph)
@@ -0,0 +1,63 @@
+import * as fs from 'node:fs'
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { getConfigFromQuery } from '@/libs/config-loader'
+import { GraphBuilder } from '@/libs/graph-builder'
+import type { ExpandTarget } from '@/types'
+
+export const config = {
+  api: {
+    bodyParser: true,
+  },
+}
+
+// Next levels below a node that the depth, node or per-node limits cut off. The body carries the node as the client has it
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const query = req.query as {
+    folder: string
+    depth?: string
+    graphMode?: string
+    focusPackage?: string
+    dependencyScope?: string
+  }
+  const node = (req.body?.node || null) as ExpandTarget | null
+  try {
+    const projectPath = Array.isArray(query.folder) ? query.folder[0] : query.folder
+    const depth = Number.parseInt(Array.isArray(query.depth) ? query.depth[0] : query.depth || '1', 10)
+
+    if (!projectPath) {
+      return res.status(400).json({ error: 'Project path is required' })
+    }
+
+    if (!node?.id || !node.packageKey || !Array.isArray(node.parentPath)) {
+      return res.status(400).json({ error: 'Node id, packageKey and parentPath are required' })
+    }
+
+    if (!fs.existsSync(projectPath)) {
+      return res.status(400).json({ error: 'Project path does not exist' })
+    }
+
+    const analyzer = new GraphBuilder(projectPath, { config: getConfigFromQuery(query) })
+    const subgraph = await analyzer.expand(
+      {
+        id: node.id,
+        packageKey: node.packageKey,
+        dependencyLevel: Number(node.dependencyLevel) || 0,
+        isRoot: !!node.isRoot,
+        parentPath: node.parentPath,
+      },
+      Number.isInteger(depth) && depth > 0 ? depth : 1,
+    )
+
+    res.status(200).json(subgraph)
+  } catch (error) {
+    console.error('Expand error:', error)
+    res.status(500).json({
+      error: 'Failed to expand node',
+      details: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
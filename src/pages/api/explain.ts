@@ -0,0 +1,45 @@
+import * as fs from 'node:fs'
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { GraphBuilder } from '@/libs/graph-builder'
+
+export const config = {
+  api: {
+    bodyParser: true,
+  },
+}
+
+// Why is this installed? Every dependency chain from a local package to the given package
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const query = req.query as { folder: string; package?: string; version?: string }
+  try {
+    const projectPath = Array.isArray(query.folder) ? query.folder[0] : query.folder
+    const packageName = Array.isArray(query.package) ? query.package[0] : query.package
+    const version = Array.isArray(query.version) ? query.version[0] : query.version
+
+    if (!projectPath) {
+      return res.status(400).json({ error: 'Project path is required' })
+    }
+
+    if (!packageName) {
+      return res.status(400).json({ error: 'Package name is required' })
+    }
+
+    if (!fs.existsSync(projectPath)) {
+      return res.status(400).json({ error: 'Project path does not exist' })
+    }
+
+    const explanation = await new GraphBuilder(projectPath).explain(packageName, version || undefined)
+
+    res.status(200).json(explanation)
+  } catch (error) {
+    console.error('Explain error:', error)
+    res.status(500).json({
+      error: 'Failed to explain package',
+      details: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
@@ -1,19 +1,42 @@
 /** biome-ignore-all lint/a11y/noSvgWithoutTitle: <test> */
 
 import { useRouter } from 'next/router'
-import { useCallback, useEffect, useState } from 'react'
-import type { AnalysisResult } from '@/types'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { AnalysisPhase, AnalysisProgress, AnalysisResult, AnalysisStreamEvent, DepegraphConfig } from '@/types'
 import DependencyGraph from '../components/DependencyGraph'
 
+const analysisPhases: Array<{ phase: AnalysisPhase; label: string }> = [
+  { phase: 'packages', label: 'Finding packages' },
+  { phase: 'lockfiles', label: 'Parsing lockfiles' },
+  { phase: 'node-modules', label: 'Scanning node_modules' },
+  { phase: 'sizes', label: 'Computing sizes' },
+  { phase: 'graph', label: 'Building graph' },
+]
+
+// Each phase takes an equal share of the bar, filled by its own counts
+const getProgressPercent = (progress: AnalysisProgress | null) => {
+  if (!progress) return 0
+  const phaseIndex = analysisPhases.findIndex(({ phase }) => phase === progress.phase)
+  const phaseFraction = progress.total ? (progress.current || 0) / progress.total : 0
+  return Math.round(((phaseIndex + phaseFraction) / analysisPhases.length) * 100)
+}
+
 export default function Home() {
   const router = useRouter()
   const [projectPath, setProjectPath] = useState('')
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [result, setResult] = useState<AnalysisResult | null>(null)
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null)
+  const [focusPackage, setFocusPackage] = useState('')
+  const abortControllerRef = useRef<AbortController | null>(null)
 
   const analyzeProject = useCallback(
-    async (pathToAnalyze?: string) => {
+    // Options left out fall back to .depegraphrc and the CLI flags on the server
+    async (
+      pathToAnalyze?: string,
+      options: Partial<Pick<DepegraphConfig, 'graphMode' | 'focusPackage' | 'dependencyScope'>> = {},
+    ) => {
       const targetPath = pathToAnalyze || projectPath
 
       if (!targetPath.trim()) {
@@ -21,34 +44,88 @@ export default function Home() {
         return
       }
 
+      abortControllerRef.current?.abort()
+      const abortController = new AbortController()
+      abortControllerRef.current = abortController
+
       setLoading(true)
       setError(null)
+      setProgress(null)
 
       try {
-        const response = await fetch(`/api/analyze?folder=${targetPath}`, {
+        const modeQuery = Object.entries(options)
+          .filter(([, value]) => value)
+          .map(([key, value]) => `&${key}=${encodeURIComponent(String(value))}`)
+          .join('')
+        const response = await fetch(`/api/analyze-stream?folder=${encodeURIComponent(targetPath)}${modeQuery}`, {
           method: 'POST',
+          signal: abortController.signal,
         })
 
-        if (!response.ok) {
+        if (!response.ok || !response.body) {
           const errorData = await response.json()
           throw new Error(errorData.error || 'Failed to analyze project')
         }
 
-        const data: AnalysisResult = await response.json()
+        const reader = response.body.getReader()
+        const decoder = new TextDecoder()
+        let buffer = ''
+        let data: AnalysisResult | null = null
+
+        while (!data) {
+          const { done, value } = await reader.read()
+          if (done) break
+
+          buffer += decoder.decode(value, { stream: true })
+          const lines = buffer.split('\n')
+          buffer = lines.pop() || ''
+
+          for (const line of lines.filter((line) => line.trim())) {
+            const event: AnalysisStreamEvent = JSON.parse(line)
+            if (event.type === 'progress') {
+              setProgress(event)
+            } else if (event.type === 'result') {
+              data = event.graph
+            } else {
+              throw new Error(event.details ? `${event.error}: ${event.details}` : event.error)
+            }
+          }
+        }
+
+        if (!data) {
+          throw new Error('Analysis ended without a result')
+        }
+
         setResult(data)
 
         if (pathToAnalyze) {
           setProjectPath(pathToAnalyze)
         }
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'An error occurred')
+        if (abortControllerRef.current !== abortController) {
+          // A newer analysis superseded this one and owns the error state
+          return
+        }
+        if (abortController.signal.aborted) {
+          setError('Analysis cancelled')
+        } else {
+          setError(err instanceof Error ? err.message : 'An error occurred')
+        }
       } finally {
-        setLoading(false)
+        if (abortControllerRef.current === abortController) {
+          abortControllerRef.current = null
+          setLoading(false)
+          setProgress(null)
+        }
       }
     },
     [projectPath],
   )
 
+  const cancelAnalysis = useCallback(() => {
+    abortControllerRef.current?.abort()
+  }, [])
+
   const resetAnalysis = useCallback(() => {
     setResult(null)
     setError(null)
@@ -132,6 +209,38 @@ export default function Home() {
                       'Analyze Dependencies'
                     )}
                   </button>
+
+                  {loading && (
+                    <div className="space-y-2">
+                      <div className="flex justify-between text-xs text-white/60">
+                        <span>
+                          {progress
+                            ? analysisPhases.find(({ phase }) => phase === progress.phase)?.label
+                            : 'Starting analysis'}
+                        </span>
+                        <span>{getProgressPercent(progress)}%</span>
+                      </div>
+                      <div className="h-2 w-full bg-white/10 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-blue-500 transition-all duration-300"
+                          style={{ width: `${getProgressPercent(progress)}%` }}
+                        />
+                      </div>
+                      <div className="flex justify-between items-center gap-4">
+                        <p className="text-xs text-gray-500 font-mono truncate">
+                          {progress?.message}
+                          {progress?.total ? ` (${progress.current || 0}/${progress.total})` : ''}
+                        </p>
+                        <button
+                          type="button"
+                          onClick={cancelAnalysis}
+                          className="px-3 py-1 text-xs bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -176,13 +285,133 @@ export default function Home() {
                     {result.packages.length} pkgs, {result.nodes.length} nodes, {result.links.length} deps
                   </p>
                 </div>
+                <div className="flex rounded-lg overflow-hidden border border-white/20 text-xs">
+                  {(['tree', 'dag'] as const).map((mode) => (
+                    <button
+                      key={mode}
+                      type="button"
+                      disabled={loading}
+                      onClick={() =>
+                        analyzeProject(projectPath, {
+                          graphMode: mode,
+                          dependencyScope: result.config?.dependencyScope,
+                        })
+                      }
+                      title={
+                        mode === 'tree'
+                          ? 'Repeat shared packages under every dependent'
+                          : 'One node per package@version'
+                      }
+                      className={`px-3 py-1 transition-colors disabled:opacity-50 ${
+                        (result.config?.graphMode || 'tree') === mode ? 'bg-blue-600' : 'hover:bg-white/10'
+                      }`}
+                    >
+                      {mode === 'tree' ? 'Tree' : 'DAG'}
+                    </button>
+                  ))}
+                </div>
+                <form
+                  className="flex rounded-lg overflow-hidden border border-white/20 text-xs"
+                  onSubmit={(e) => {
+                    e.preventDefault()
+                    void analyzeProject(projectPath, {
+                      graphMode: 'dependents',
+                      focusPackage: focusPackage.trim(),
+                      dependencyScope: result.config?.dependencyScope,
+                    })
+                  }}
+                >
+                  <input
+                    type="text"
+                    value={focusPackage}
+                    onChange={(e) => setFocusPackage(e.target.value)}
+                    placeholder="package[@version]"
+                    className="w-40 px-2 py-1 bg-transparent outline-none"
+                  />
+                  <button
+                    type="submit"
+                    disabled={loading || !focusPackage.trim()}
+                    title="Everything that depends on this package, up to the workspace roots"
+                    className={`px-3 py-1 transition-colors disabled:opacity-50 ${
+                      result.config?.graphMode === 'dependents' ? 'bg-blue-600' : 'hover:bg-white/10'
+                    }`}
+                  >
+                    Dependents
+                  </button>
+                </form>
+                <div className="flex rounded-lg overflow-hidden border border-white/20 text-xs">
+                  {(['all', 'production', 'development'] as const).map((scope) => (
+                    <button
+                      key={scope}
+                      type="button"
+                      disabled={loading}
+                      onClick={() =>
+                        analyzeProject(projectPath, {
+                          graphMode: result.config?.graphMode,
+                          focusPackage: result.config?.focusPackage,
+                          dependencyScope: scope,
+                        })
+                      }
+                      title={
+                        scope === 'all'
+                          ? 'Every dependency'
+                          : scope === 'production'
+                            ? 'Everything but devDependencies, followed transitively'
+                            : 'Packages only devDependencies bring in'
+                      }
+                      className={`px-3 py-1 transition-colors disabled:opacity-50 ${
+                        (result.config?.dependencyScope || 'all') === scope ? 'bg-blue-600' : 'hover:bg-white/10'
+                      }`}
+                    >
+                      {scope === 'all' ? 'All' : scope === 'production' ? 'Prod' : 'Dev only'}
+                    </button>
+                  ))}
+                </div>
               </div>
 
               <div className="flex items-center space-x-6 text-xs text-white/60">
+                {result.dependents && (
+                  <span title={result.dependents.packageKeys.join(', ')}>
+                    Dependents: {result.dependents.directDependents} direct, {result.dependents.transitiveDependents}{' '}
+                    total
+                    {result.dependents.workspaces.map(
+                      (workspace) =>
+                        ` · ${workspace.workspace} ${workspace.directDependents}/${workspace.transitiveDependents}`,
+                    )}
+                  </span>
+                )}
+                {result.stats && (
+                  <span title="Every package in the selected dependency scope">
+                    Packages: {result.stats.totalPackages} ({result.stats.formattedTotalSize})
+                  </span>
+                )}
                 <span>Workspaces: {result.workspaces?.length || 0}</span>
-                <span>Root: {result.nodes.filter((n) => n.isRoot).length}</span>
+                <span>Outside workspaces: {result.unassignedPackages?.length || 0}</span>
+                <span>
+                  Root: {result.nodes.filter((n) => n.isRoot).length}
+                  {!!result.stats?.omittedRoots && (
+                    <span className="text-red-400" title="Left out once maxNodesPerTree nodes were built">
+                      {' '}
+                      (+{result.stats.omittedRoots} not shown)
+                    </span>
+                  )}
+                </span>
                 <span>Dependencies: {result.nodes.filter((n) => !n.isRoot && n.isInstalled).length}</span>
                 <span>Missing: {result.nodes.filter((n) => !n.isInstalled).length}</span>
+                <span>Drift: {result.drift?.issues.length || 0}</span>
+                <span>Peer warnings: {result.peerDependencies?.issues.length || 0}</span>
+                <span>Out of range: {result.rangeViolations?.length || 0}</span>
+                <span>
+                  Cycles: {result.cycles?.length || 0} (
+                  {result.cycles?.filter((cycle) => cycle.kind === 'workspace').length || 0} workspace)
+                </span>
+                <span>
+                  Non-registry: {result.packageSources?.filter((source) => source.kind !== 'registry').length || 0}
+                </span>
+                <span>
+                  Overrides: {result.overrides?.rules.length || 0} ({result.overrides?.unmatched.length || 0} unmatched,{' '}
+                  {result.overrides?.conflicts.length || 0} conflicts)
+                </span>
                 <span>Level 1: {result.nodes.filter((n) => n.dependencyLevel === 1).length}</span>
                 <span>Level 2: {result.nodes.filter((n) => n.dependencyLevel === 2).length}</span>
                 <span>Level 3: {result.nodes.filter((n) => n.dependencyLevel === 3).length}</span>
@@ -194,7 +423,15 @@ export default function Home() {
           </div>
 
           <div className="flex-1 overflow-hidden">
-            <DependencyGraph nodes={result.nodes} links={result.links} workspaces={result.workspaces} />
+            <DependencyGraph
+              nodes={result.nodes}
+              links={result.links}
+              workspaces={result.workspaces}
+              projectPath={projectPath}
+              config={result.config}
+              retainedSizes={result.retainedSizes}
+              packageMetrics={result.packageMetrics}
+            />
           </div>
         </div>
       )}
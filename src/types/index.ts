@@ -10,12 +10,25 @@ export interface AnalysisResult {
   links: LinkDatum[]
   packages: PackageInfo[]
   workspaces: WorkspaceInfo[]
+  unassignedPackages: PackageInfo[]
+  drift?: DriftReport
+  overrides?: OverrideReport
+  peerDependencies?: PeerDependencyReport
+  rangeViolations?: RangeViolation[]
+  packageSources?: Array<DependencySource & { packageKey: string }>
+  cycles?: DependencyCycle[]
+  dependents?: DependentsReport
+  retainedSizes?: RetainedSizeReport
+  packageMetrics?: Array<PackageMetrics & { packageKey: string; exclusiveSize: number }>
+  config?: DepegraphConfig
+  stats?: Pick<DependencyGraph['stats'], 'omittedRoots' | 'totalPackages' | 'totalSize' | 'formattedTotalSize'>
 }
 
 export interface NodeDatum {
   id: string
   name: string
   version?: string
+  packageKey: string
   isRoot: boolean
   parentPath: string[]
   originalName: string
@@ -26,8 +39,21 @@ export interface NodeDatum {
   packagePath?: string
   size?: number
   formattedSize?: string
+  // Bytes of the package and everything it reaches, each package counted once
+  transitiveSize?: number
+  // Bytes only reachable through this package, which removing it would free
+  exclusiveSize?: number
+  metrics?: PackageMetrics
   dependencyLevel: number
   workspaceId?: string
+  installState?: 'hoisted' | 'nested' | 'hoisted-and-nested'
+  // Packages that hold a nested copy of this one
+  nestedUnder?: string[]
+  drift?: DriftIssue[]
+  source?: DependencySource
+  peerIssues?: PeerDependencyIssue[]
+  // Dependencies (dependents in the `dependents` mode) left out by the depth, node or per-node limits
+  omittedChildren?: number
   x?: number
   y?: number
   fx?: number | null
@@ -38,6 +64,31 @@ export interface LinkDatum {
   source: string
   target: string
   type: 'dependency' | 'devDependency' | 'peerDependency' | 'optionalDependency'
+  // Resolved to a local package through a workspace/link/file/portal specifier or a workspace name
+  isInternal?: boolean
+  // Range the dependent declares, the version it resolved to and whether the two agree
+  range?: string
+  resolvedVersion?: string
+  // Undefined when the range is a tag, URL or path that cannot be evaluated
+  satisfiesRange?: boolean
+  override?: {
+    selector: string
+    target: string
+    // False when the resolved version does not satisfy the forced one
+    applied: boolean
+  }
+  // Both ends belong to the same dependency cycle
+  isCycle?: boolean
+}
+
+export interface DependencySpecifier {
+  protocol: 'npm' | 'alias' | 'git' | 'tarball' | 'workspace' | 'link' | 'file' | 'portal'
+  raw: string
+  range: string
+  // Package the specifier points at when it differs from the dependency name
+  name?: string
+  // Relative path of local specifiers and `file:` tarballs
+  path?: string
 }
 
 export interface DependencyGraph {
@@ -45,12 +96,31 @@ export interface DependencyGraph {
   links: LinkDatum[]
   packages: any[]
   workspaces: WorkspaceInfo[]
+  unassignedPackages: PackageInfo[]
+  drift: DriftReport
+  overrides: OverrideReport
+  peerDependencies: PeerDependencyReport
+  rangeViolations: RangeViolation[]
+  packageSources: Array<DependencySource & { packageKey: string }>
+  cycles: DependencyCycle[]
+  // Only in the `dependents` graph mode
+  dependents?: DependentsReport
+  retainedSizes: RetainedSizeReport
+  // One entry per package of the deduplicated graph, which expanded nodes take their metrics from
+  packageMetrics: Array<PackageMetrics & { packageKey: string; exclusiveSize: number }>
+  config: DepegraphConfig
   stats: {
     totalNodes: number
     totalLinks: number
     maxLevel: number
     levelDistribution: Map<number, number>
     duplicatedPackages: Map<string, number>
+    // Local packages the tree mode left out once `maxNodesPerTree` nodes were built
+    omittedRoots: number
+    // Every package in the dependency scope, not only the ones the graph limits kept
+    totalPackages: number
+    totalSize: number
+    formattedTotalSize: string
   }
 }
 
@@ -62,13 +132,144 @@ export interface PackageInfo {
   devDependencies: Record<string, string>
   peerDependencies: Record<string, string>
   optionalDependencies: Record<string, string>
+  // npm `overrides`, Yarn `resolutions` and `pnpm.overrides` declared by this manifest
+  overrides?: OverrideRule[]
+}
+
+export interface OverrideRule {
+  source: 'overrides' | 'resolutions' | 'pnpm.overrides'
+  manifestPath: string
+  // Key as written in the manifest, e.g. `a>b@^1` or `**/b`
+  selector: string
+  name: string
+  // Only versions requested within this range are overridden
+  range: string
+  // Ancestors the override is scoped to, outermost first; Yarn's `**` matches any chain of them
+  parents: string[]
+  target: string
+}
+
+export interface OverrideConflict {
+  name: string
+  rules: OverrideRule[]
+}
+
+export interface OverrideReport {
+  rules: OverrideRule[]
+  unmatched: OverrideRule[]
+  conflicts: OverrideConflict[]
+}
+
+export interface ImporterDependency {
+  name: string
+  version: string
+  type: LinkDatum['type']
+  // Published name when the manifest installs the package under an alias and the lockfile keys it by that name
+  realName?: string
+}
+
+export interface InstalledPackage {
+  name: string
+  version: string
+  size?: number
+  // Where the lockfile says the package was fetched from
+  resolved?: string
+  // Published name when the package is installed under an alias
+  realName?: string
+}
+
+export interface DependencySource {
+  kind: 'registry' | 'git' | 'tarball' | 'alias' | 'local'
+  realName?: string
+  registryHost?: string
+  resolved?: string
+}
+
+export interface InstallLocation {
+  // Folder inside node_modules, possibly a symlink
+  path: string
+  realPath: string
+  name: string
+  version: string
+  packageKey: string
+  // Package whose node_modules holds this copy, null for a project's own node_modules
+  parentKey: string | null
+  isSymlink: boolean
+  isHoisted: boolean
+  realName?: string
 }
 
 export interface ParsedData {
   packages: PackageInfo[]
   workspaces: WorkspaceInfo[]
-  installedPackages: Map<string, { version: string; size?: number }>
+  // Manifests found on disk that no workspace declaration covers
+  unassignedPackages: PackageInfo[]
+  // Keyed by `name@version`, so several versions of one package can coexist
+  installedPackages: Map<string, InstalledPackage>
   dependencyTree: Map<string, Set<string>>
+  // Ranges each package declares for its dependencies, keyed like `dependencyTree`
+  declaredRanges: Map<string, Map<string, string>>
+  // Type of each `dependencyTree` edge by dependent and dependency key; edges missing here are plain dependencies
+  edgeTypes: Map<string, Map<string, DependencyEdgeType>>
+  importers: Map<string, ImporterDependency[]>
+  installLocations: InstallLocation[]
+  drift: DriftReport
+  overrides: OverrideReport
+  peerDependencies: PeerDependencyReport
+  rangeViolations: RangeViolation[]
+  packageSources: Map<string, DependencySource>
+}
+
+// Edge types as lockfiles and installed manifests record them
+export type DependencyEdgeType = 'dependency' | 'optional' | 'peer' | 'peerOptional' | 'bundled'
+
+export interface DriftIssue {
+  kind: 'missing-from-lockfile' | 'unused-lock-entry' | 'version-mismatch' | 'not-in-lockfile'
+  name: string
+  // Graph node the issue belongs to; the declaring package for `missing-from-lockfile`
+  packageKey: string
+  manifestPath?: string
+  specifier?: string
+  lockedVersion?: string
+  installedVersion?: string
+  installPath?: string
+}
+
+export interface DriftReport {
+  lockFiles: string[]
+  issues: DriftIssue[]
+}
+
+export interface PeerResolution {
+  // Package declaring the peer
+  packageKey: string
+  installPath: string
+  peerName: string
+  range: string
+  optional: boolean
+  providerKey: string | null
+  satisfied: boolean
+}
+
+export interface PeerDependencyIssue {
+  kind: 'missing' | 'incompatible' | 'multiple-providers'
+  packageKey: string
+  peerName: string
+  range: string
+  providers: string[]
+}
+
+export interface PeerDependencyReport {
+  resolutions: PeerResolution[]
+  issues: PeerDependencyIssue[]
+}
+
+export interface RangeViolation {
+  // Installed package that falls outside what its dependents ask for
+  packageKey: string
+  name: string
+  version: string
+  dependents: Array<{ dependentKey: string; range: string }>
 }
 
 export interface PackageStats {
@@ -95,3 +296,142 @@ export interface ProjectStats {
   largestPackages: PackageStats[]
   heaviestDependencies: PackageStats[]
 }
+
+export type AnalysisPhase = 'packages' | 'lockfiles' | 'node-modules' | 'sizes' | 'graph'
+
+export interface AnalysisProgress {
+  phase: AnalysisPhase
+  message: string
+  current?: number
+  total?: number
+}
+
+export interface AnalysisOptions {
+  onProgress?: (progress: AnalysisProgress) => void
+  signal?: AbortSignal
+  // Applied over `.depegraphrc` and the CLI flags
+  config?: DepegraphConfigInput
+}
+
+export interface PathFilter {
+  include: string[]
+  exclude: string[]
+}
+
+export interface DepegraphConfig {
+  maxDepth: number
+  maxNodesPerTree: number
+  maxDependenciesPerNode: number
+  maxPerNode: number
+  // Globs relative to the project root
+  manifests: PathFilter
+  lockfiles: PathFilter
+  nodeModules: PathFilter
+  dependencyTypes: LinkDatum['type'][]
+  // `tree` repeats a package under every dependent, `dag` keeps one node per package@version,
+  // `dependents` starts at `focusPackage` and walks the reverse graph
+  graphMode: 'tree' | 'dag' | 'dependents'
+  // `name` or `name@version`
+  focusPackage: string | null
+  // `production` follows everything but devDependencies, `development` keeps what only devDependencies bring in
+  dependencyScope: 'all' | 'production' | 'development'
+  // Reuse results from node_modules/.cache/depegraph
+  cache: boolean
+  // Workspace cycles that `--fail-on-cycles` accepts, each listed by its package names
+  allowedCycles: string[][]
+}
+
+export type DepegraphConfigInput = Partial<Omit<DepegraphConfig, 'manifests' | 'lockfiles' | 'nodeModules'>> & {
+  manifests?: Partial<PathFilter>
+  lockfiles?: Partial<PathFilter>
+  nodeModules?: Partial<PathFilter>
+}
+
+// Strongly connected component of the dependency graph
+export interface DependencyCycle {
+  // `workspace` cycles run through local packages only
+  kind: 'workspace' | 'dependency'
+  // package@version keys of every member, sorted
+  packages: string[]
+  // One loop through the component, starting and ending at the same package
+  path: string[]
+  // Listed in the `allowedCycles` config
+  allowed: boolean
+}
+
+// Edge of the full dependency graph, without depth or per-node limits
+export interface DependencyEdge {
+  depKey: string
+  type: LinkDatum['type']
+  // Range the dependent declares
+  range?: string
+}
+
+export interface ExplanationHop {
+  from: string
+  to: string
+  type: LinkDatum['type']
+  range?: string
+}
+
+// Answer to "why is this installed?"
+export interface DependencyExplanation {
+  name: string
+  version?: string
+  // Every package@version that matched
+  packageKeys: string[]
+  // Each chain starts at a local package and ends at a matched package
+  chains: ExplanationHop[][]
+  // More chains exist than were returned
+  truncated: boolean
+}
+
+// Who depends on the focused package, directly or through other packages
+export interface DependentsReport {
+  packageKeys: string[]
+  directDependents: number
+  transitiveDependents: number
+  workspaces: Array<{
+    workspace: string
+    // Local packages of the workspace that depend on it
+    packages: string[]
+    // Dependents the workspace reaches, counted once even when several of its packages do
+    directDependents: number
+    transitiveDependents: number
+  }>
+}
+
+// What dropping a direct dependency would free, from a dominator tree over the deduplicated graph
+export interface RetainedSizeReport {
+  workspaces: Array<{
+    workspace: string
+    // Direct dependencies of the workspace's packages, biggest savings first
+    dependencies: Array<{
+      packageKey: string
+      // Bytes freed by removing the dependency from every package of this workspace
+      exclusiveSize: number
+      transitiveSize: number
+    }>
+  }>
+}
+
+// Centrality of a package in the deduplicated dependency graph
+export interface PackageMetrics {
+  // Flows from dependents to dependencies, sums to 1 over all packages
+  pageRank: number
+  // Shortest paths between other packages that run through this one
+  betweenness: number
+  // Packages that reach this one, directly or transitively
+  transitiveDependents: number
+  // Packages only reachable through this one, for which it is a single point of failure
+  dominatedPackages: number
+}
+
+// Node of the client's graph that /api/expand continues from
+export type ExpandTarget = Pick<NodeDatum, 'id' | 'packageKey' | 'dependencyLevel' | 'isRoot' | 'parentPath'>
+
+// One NDJSON line of the streaming analyze API
+export type AnalysisStreamEvent =
+  | ({ type: 'progress' } & AnalysisProgress)
+  | { type: 'result'; graph: DependencyGraph }
+  | { type: 'error'; error: string; details?: string }